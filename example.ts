@@ -30,31 +30,17 @@ async function main() {
             seedAmount: "10" // $10 USDC
         });
         console.log("Token launched! Tx:", launchRes.hash);
+        console.log(`Token: ${launchRes.tokenAddress} (Market: ${launchRes.marketAddress})`);
+        const myToken = { token: launchRes.tokenAddress, market: launchRes.marketAddress };
 
-        // Wait for indexing (simple delay)
-        console.log("Waiting for indexing...");
-        await new Promise(r => setTimeout(r, 5000));
-
-        // 2. Find the token we just launched
-        const tokens = await sdk.getTokens();
-        // Assuming the latest one is ours or filtering by name
-        const myToken = tokens.find(t => t.name === "SDK Agent");
-        if (!myToken) {
-            throw new Error("Token not found in list after launch. Indexer might be slow.");
-        }
-        console.log(`Found token: ${myToken.token} (Market: ${myToken.market})`);
-
-        // 3. Buy Token
+        // 2. Buy Token
         console.log("\n--- 2. Buying Token ---");
         const buyTx = await sdk.buy(myToken.market, "5"); // Buy $5 worth
         console.log("Buy successful! Tx:", buyTx);
 
-        // 4. Sell Token
+        // 3. Sell Token
         console.log("\n--- 3. Selling Token ---");
-        // Get quote to know how much we have (approx) or specify exact amount
-        // For this example, let's just sell 1 token (10^18 wei)
-        const tokensToSell = "1";
-        const sellTx = await sdk.sell(myToken.market, tokensToSell, myToken.token);
+        const sellTx = await sdk.sellAll(myToken.market, myToken.token);
         console.log("Sell successful! Tx:", sellTx);
 
         console.log("\n--- SDK Verification Complete! ---");
@@ -0,0 +1,278 @@
+// Minimal ABI fragments for the MoltMoon V2 contracts the SDK talks to directly.
+// Only the entries the SDK decodes or encodes are listed here.
+
+export const factoryAbi = [
+    {
+        type: 'function',
+        name: 'createToken',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'name', type: 'string' },
+            { name: 'symbol', type: 'string' },
+            { name: 'uri', type: 'string' },
+            { name: 'seedAmount', type: 'uint256' }
+        ],
+        outputs: [
+            { name: 'token', type: 'address' },
+            { name: 'market', type: 'address' }
+        ]
+    },
+    {
+        type: 'event',
+        name: 'TokenCreated',
+        inputs: [
+            { name: 'token', type: 'address', indexed: true },
+            { name: 'market', type: 'address', indexed: true },
+            { name: 'creator', type: 'address', indexed: true },
+            { name: 'rewardsPool', type: 'address', indexed: false },
+            { name: 'name', type: 'string', indexed: false },
+            { name: 'symbol', type: 'string', indexed: false },
+            { name: 'uri', type: 'string', indexed: false },
+            { name: 'seedAmount', type: 'uint256', indexed: false }
+        ]
+    }
+] as const;
+
+export const erc20Abi = [
+    {
+        type: 'function',
+        name: 'allowance',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' }
+        ],
+        outputs: [{ name: '', type: 'uint256' }]
+    },
+    {
+        type: 'function',
+        name: 'balanceOf',
+        stateMutability: 'view',
+        inputs: [{ name: 'account', type: 'address' }],
+        outputs: [{ name: '', type: 'uint256' }]
+    },
+    {
+        type: 'function',
+        name: 'decimals',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'uint8' }]
+    },
+    {
+        type: 'function',
+        name: 'approve',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'spender', type: 'address' },
+            { name: 'amount', type: 'uint256' }
+        ],
+        outputs: [{ name: '', type: 'bool' }]
+    },
+    {
+        type: 'function',
+        name: 'transfer',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'to', type: 'address' },
+            { name: 'amount', type: 'uint256' }
+        ],
+        outputs: [{ name: '', type: 'bool' }]
+    }
+] as const;
+
+export const marketAbi = [
+    {
+        type: 'function',
+        name: 'buy',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'usdcIn', type: 'uint256' },
+            { name: 'minTokensOut', type: 'uint256' }
+        ],
+        outputs: [{ name: 'tokensOut', type: 'uint256' }]
+    },
+    {
+        type: 'function',
+        name: 'sell',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'tokensIn', type: 'uint256' },
+            { name: 'minUsdcOut', type: 'uint256' }
+        ],
+        outputs: [{ name: 'usdcOut', type: 'uint256' }]
+    },
+    {
+        type: 'event',
+        name: 'Buy',
+        inputs: [
+            { name: 'buyer', type: 'address', indexed: true },
+            { name: 'usdcIn', type: 'uint256', indexed: false },
+            { name: 'tokensOut', type: 'uint256', indexed: false }
+        ]
+    },
+    {
+        type: 'event',
+        name: 'Sell',
+        inputs: [
+            { name: 'seller', type: 'address', indexed: true },
+            { name: 'tokensIn', type: 'uint256', indexed: false },
+            { name: 'usdcOut', type: 'uint256', indexed: false },
+            { name: 'fee', type: 'uint256', indexed: false }
+        ]
+    },
+    {
+        type: 'event',
+        name: 'Graduated',
+        inputs: [
+            { name: 'aerodromePool', type: 'address', indexed: true },
+            { name: 'baseAmount', type: 'uint256', indexed: false },
+            { name: 'tokenAmount', type: 'uint256', indexed: false }
+        ]
+    }
+] as const;
+
+export const rewardsPoolAbi = [
+    {
+        type: 'function',
+        name: 'claim',
+        stateMutability: 'nonpayable',
+        inputs: [],
+        outputs: []
+    }
+] as const;
+
+export const migrationAbi = [
+    {
+        type: 'function',
+        name: 'migrate',
+        stateMutability: 'nonpayable',
+        inputs: [{ name: 'amount', type: 'uint256' }],
+        outputs: []
+    }
+] as const;
+
+// Chainlink aggregator, used to price gas in USDC.
+export const priceFeedAbi = [
+    {
+        type: 'function',
+        name: 'decimals',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'uint8' }]
+    },
+    {
+        type: 'function',
+        name: 'latestRoundData',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [
+            { name: 'roundId', type: 'uint80' },
+            { name: 'answer', type: 'int256' },
+            { name: 'startedAt', type: 'uint256' },
+            { name: 'updatedAt', type: 'uint256' },
+            { name: 'answeredInRound', type: 'uint80' }
+        ]
+    }
+] as const;
+
+// Aerodrome (Base) pool, pool factory and router, used once a market has graduated.
+export const aerodromePoolAbi = [
+    {
+        type: 'function',
+        name: 'token0',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'address' }]
+    },
+    {
+        type: 'function',
+        name: 'token1',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'address' }]
+    },
+    {
+        type: 'function',
+        name: 'stable',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'bool' }]
+    },
+    {
+        type: 'function',
+        name: 'factory',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [{ name: '', type: 'address' }]
+    },
+    {
+        type: 'function',
+        name: 'getReserves',
+        stateMutability: 'view',
+        inputs: [],
+        outputs: [
+            { name: '_reserve0', type: 'uint256' },
+            { name: '_reserve1', type: 'uint256' },
+            { name: '_blockTimestampLast', type: 'uint256' }
+        ]
+    },
+    {
+        type: 'function',
+        name: 'getAmountOut',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'amountIn', type: 'uint256' },
+            { name: 'tokenIn', type: 'address' }
+        ],
+        outputs: [{ name: '', type: 'uint256' }]
+    }
+] as const;
+
+export const aerodromeFactoryAbi = [
+    {
+        type: 'function',
+        name: 'getPool',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'tokenA', type: 'address' },
+            { name: 'tokenB', type: 'address' },
+            { name: 'stable', type: 'bool' }
+        ],
+        outputs: [{ name: '', type: 'address' }]
+    },
+    {
+        type: 'function',
+        name: 'getFee',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'pool', type: 'address' },
+            { name: '_stable', type: 'bool' }
+        ],
+        outputs: [{ name: '', type: 'uint256' }]
+    }
+] as const;
+
+export const aerodromeRouterAbi = [
+    {
+        type: 'function',
+        name: 'swapExactTokensForTokens',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'amountIn', type: 'uint256' },
+            { name: 'amountOutMin', type: 'uint256' },
+            {
+                name: 'routes',
+                type: 'tuple[]',
+                components: [
+                    { name: 'from', type: 'address' },
+                    { name: 'to', type: 'address' },
+                    { name: 'stable', type: 'bool' },
+                    { name: 'factory', type: 'address' }
+                ]
+            },
+            { name: 'to', type: 'address' },
+            { name: 'deadline', type: 'uint256' }
+        ],
+        outputs: [{ name: 'amounts', type: 'uint256[]' }]
+    }
+] as const;
@@ -0,0 +1,141 @@
+import { encodeFunctionData, type PublicClient } from 'viem';
+import { aerodromeFactoryAbi, aerodromePoolAbi, aerodromeRouterAbi } from './abis';
+import { TransactionError } from './errors';
+
+// Trading a graduated token on its Aerodrome pool: reserve-based quotes and router calldata
+// built locally (the MoltMoon API only builds bonding-curve intents).
+
+export const AERODROME_ROUTER = '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43';
+export const AERODROME_FACTORY = '0x420DD381b31aEf6683db6B902084cB0FFECe40Da';
+
+const FEE_DENOMINATOR = 10_000n;
+
+export interface PoolState {
+    pool: `0x${string}`;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    reserve0: bigint;
+    reserve1: bigint;
+    stable: boolean;
+    feeBps: bigint;
+    factory: `0x${string}`;
+}
+
+export interface PoolQuote {
+    amountOut: bigint;
+    fee: bigint;                // in the input token
+    priceImpactBps: bigint;     // vs the pool's marginal price, excluding the fee
+}
+
+/**
+ * Pool reserves, type and fee. Only pools deployed by AERODROME_FACTORY are accepted: the
+ * pool must name it as its factory and the factory must map (token0, token1, stable) back to it.
+ */
+export async function readPoolState(client: PublicClient, pool: `0x${string}`): Promise<PoolState> {
+    const read = <F extends 'token0' | 'token1' | 'stable' | 'factory' | 'getReserves'>(functionName: F) =>
+        ({ address: pool, abi: aerodromePoolAbi, functionName } as const);
+    let token0: `0x${string}`, token1: `0x${string}`, stable: boolean, reserves: readonly [bigint, bigint, bigint];
+    let poolFactory: `0x${string}`, registered: `0x${string}`;
+    const factory = AERODROME_FACTORY as `0x${string}`;
+    try {
+        [token0, token1, stable, reserves, poolFactory] = await client.multicall({
+            allowFailure: false,
+            contracts: [read('token0'), read('token1'), read('stable'), read('getReserves'), read('factory')]
+        });
+        registered = await client.readContract({
+            address: factory,
+            abi: aerodromeFactoryAbi,
+            functionName: 'getPool',
+            args: [token0, token1, stable]
+        });
+    } catch (error) {
+        throw new TransactionError(`Could not read Aerodrome pool ${pool}: ${(error as Error).message}`, { cause: error, code: 'POOL_UNAVAILABLE' });
+    }
+    if (poolFactory.toLowerCase() !== factory.toLowerCase() || registered.toLowerCase() !== pool.toLowerCase()) {
+        throw new TransactionError(
+            `${pool} is not an Aerodrome pool from factory ${factory} (pool factory ${poolFactory}, registered pool ${registered}).`,
+            { code: 'POOL_UNTRUSTED' }
+        );
+    }
+    const feeBps = await client.readContract({
+        address: factory,
+        abi: aerodromeFactoryAbi,
+        functionName: 'getFee',
+        args: [pool, stable]
+    }).catch(() => (stable ? 5n : 30n));
+    return { pool, token0, token1, reserve0: reserves[0], reserve1: reserves[1], stable, feeBps, factory };
+}
+
+/** Reserves oriented for a swap of `tokenIn`; throws if the pool does not hold it. */
+export function orient(state: PoolState, tokenIn: string): { tokenOut: `0x${string}`; reserveIn: bigint; reserveOut: bigint } {
+    const is0 = state.token0.toLowerCase() === tokenIn.toLowerCase();
+    if (!is0 && state.token1.toLowerCase() !== tokenIn.toLowerCase()) {
+        throw new TransactionError(`Aerodrome pool ${state.pool} does not trade ${tokenIn}.`, { code: 'POOL_MISMATCH' });
+    }
+    return is0
+        ? { tokenOut: state.token1, reserveIn: state.reserve0, reserveOut: state.reserve1 }
+        : { tokenOut: state.token0, reserveIn: state.reserve1, reserveOut: state.reserve0 };
+}
+
+/** Constant-product (volatile pool) output for an exact input, fee taken from the input. */
+export function volatileAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint): bigint {
+    const afterFee = amountIn - (amountIn * feeBps) / FEE_DENOMINATOR;
+    return (afterFee * reserveOut) / (reserveIn + afterFee);
+}
+
+/** Smallest input a volatile pool needs to pay out at least `amountOut`. */
+export function volatileAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint): bigint {
+    if (amountOut >= reserveOut) {
+        throw new TransactionError(`Pool only holds ${reserveOut} of the output token.`, { code: 'POOL_LIQUIDITY' });
+    }
+    const afterFee = (reserveIn * amountOut) / (reserveOut - amountOut) + 1n;
+    return (afterFee * FEE_DENOMINATOR) / (FEE_DENOMINATOR - feeBps) + 1n;
+}
+
+/**
+ * Quote an exact-input swap from pool reserves. Stable pools use the pool's own
+ * getAmountOut, since their invariant is not constant-product.
+ */
+export async function quotePool(client: PublicClient, state: PoolState, tokenIn: string, amountIn: bigint): Promise<PoolQuote> {
+    const { reserveIn, reserveOut } = orient(state, tokenIn);
+    const fee = (amountIn * state.feeBps) / FEE_DENOMINATOR;
+    if (!state.stable) {
+        const amountOut = volatileAmountOut(amountIn, reserveIn, reserveOut, state.feeBps);
+        const marginal = reserveIn === 0n ? 0n : ((amountIn - fee) * reserveOut) / reserveIn;
+        return { amountOut, fee, priceImpactBps: marginal === 0n ? 0n : ((marginal - amountOut) * 10_000n) / marginal };
+    }
+
+    const getAmountOut = (amount: bigint) => client.readContract({
+        address: state.pool,
+        abi: aerodromePoolAbi,
+        functionName: 'getAmountOut',
+        args: [amount, tokenIn as `0x${string}`]
+    });
+    // Marginal price from a quote 1/1000th the size.
+    const probe = amountIn / 1000n;
+    const [amountOut, probeOut] = await Promise.all([getAmountOut(amountIn), probe > 0n ? getAmountOut(probe) : Promise.resolve(0n)]);
+    const marginal = probeOut * 1000n;
+    return { amountOut, fee, priceImpactBps: marginal > amountOut ? ((marginal - amountOut) * 10_000n) / marginal : 0n };
+}
+
+export function encodeSwap(params: {
+    state: PoolState;
+    tokenIn: `0x${string}`;
+    tokenOut: `0x${string}`;
+    amountIn: bigint;
+    minAmountOut: bigint;
+    recipient: `0x${string}`;
+    deadline: bigint;
+}): `0x${string}` {
+    return encodeFunctionData({
+        abi: aerodromeRouterAbi,
+        functionName: 'swapExactTokensForTokens',
+        args: [
+            params.amountIn,
+            params.minAmountOut,
+            [{ from: params.tokenIn, to: params.tokenOut, stable: params.state.stable, factory: params.state.factory }],
+            params.recipient,
+            params.deadline
+        ]
+    });
+}
@@ -1,8 +1,38 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
+import { readFile, writeFile } from 'node:fs/promises';
 import dotenv from 'dotenv';
-import { MoltmoonSDK } from './index';
-import type { MoltmoonConfig } from './types';
+import { createInterface } from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import {
+    MoltmoonSDK,
+    MoltmoonError,
+    AbortedError,
+    MetadataError,
+    TransactionError,
+    TransactionRevertedError,
+    buildCandles,
+    parseInterval,
+    parseSignedTransactions,
+    defaultLaunchStateFile,
+    loadLaunchBatch,
+    loadLaunchConfig,
+    readLaunchBatchState,
+    writeLaunchBatchState,
+    StrategyRunner,
+    defaultStrategyStateFile,
+    loadStrategy,
+    MockMoltmoonServer,
+    PaperModeError,
+    ValidationError,
+    WalletRegistry,
+    loadWalletRegistry,
+    BASE_USDC,
+} from './index';
+import { readKeystore } from './keystore';
+import { readConfigFile } from './launch-config';
+import { formatUnits, isAddress, parseGwei, parseUnits } from 'viem';
+import type { LaunchBatchState, LaunchParams, MockServerOptions, MoltmoonConfig, WalletInfo, SimulationResult, StrategyEvent, TokenPage, TokenQuery, TradeOptions, TradePreview, TransactionIntent } from './types';
 
 dotenv.config();
 
@@ -10,13 +40,47 @@ type CliOptions = {
     apiUrl?: string;
     network?: 'base';
     privateKey?: string;
+    keystore?: string;
+    rpcUrl?: string;
+    pipeline?: boolean;
+    maxFee?: string;
+    maxPriorityFee?: string;
+    paper?: boolean;
+    paperState?: string;
+    paperUsdc?: string;
+    wallets?: string;
+    wallet?: string;
+    trustedFactory?: string;
+    trustedMigration?: string;
+};
+
+type ExportOptions = {
+    export?: string;
+    exportFormat?: string;
+    from?: string;
+    json?: boolean;
 };
 
 const DEFAULT_API_URL = 'https://api.moltmoon.ai';
+const DEFAULT_PAPER_STATE = 'moltmoon-paper.json';
+
+function errorCode(error: unknown): string {
+    if (error instanceof MoltmoonError) return error.code;
+    if (typeof error === 'string') return 'INVALID_ARGUMENT';
+    return 'UNKNOWN_ERROR';
+}
 
-function fail(message: string, asJson = false): never {
+function fail(error: unknown, asJson = false): never {
+    const message = error instanceof Error ? error.message : String(error);
     if (asJson) {
-        console.error(JSON.stringify({ success: false, error: message }));
+        const payload: Record<string, unknown> = { success: false, code: errorCode(error), error: message };
+        if (error instanceof MoltmoonError) {
+            for (const key of ['status', 'path', 'field', 'hash', 'reason', 'uri'] as const) {
+                const value = (error as any)[key];
+                if (value !== undefined) payload[key] = value;
+            }
+        }
+        console.error(JSON.stringify(payload));
     } else {
         console.error(`Error: ${message}`);
     }
@@ -37,24 +101,228 @@ function resolveNetwork(options: CliOptions): 'base' {
     return 'base';
 }
 
-function createSDK(options: CliOptions, requireSigner = false): MoltmoonSDK {
+async function promptHidden(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+        fail('Keystore password required. Set MOLTMOON_KEYSTORE_PASSWORD for non-interactive use.');
+    }
+    // Readline echoes typed characters to its output, so give it one that discards them.
+    const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+    const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+    process.stderr.write(question);
+    try {
+        return await rl.question('');
+    } finally {
+        rl.close();
+        process.stderr.write('\n');
+    }
+}
+
+async function resolvePrivateKey(options: CliOptions, requireSigner: boolean): Promise<`0x${string}` | undefined> {
+    const keystore = options.keystore || process.env.MOLTMOON_KEYSTORE;
+    const privateKey = options.privateKey || process.env.MOLTMOON_PRIVATE_KEY || process.env.PRIVATE_KEY;
+    if (options.keystore && options.privateKey) {
+        fail('Pass either --keystore or --private-key, not both.');
+    }
+
+    // Only unlock the keystore for commands that sign, so read-only commands never prompt.
+    if (keystore && !options.privateKey) {
+        if (!requireSigner) return undefined;
+        const password = process.env.MOLTMOON_KEYSTORE_PASSWORD ?? await promptHidden(`Password for ${keystore}: `);
+        return readKeystore(keystore, password);
+    }
+    return privateKey as `0x${string}` | undefined;
+}
+
+let walletRegistry: Promise<WalletRegistry> | undefined;
+let walletPassword: Promise<string> | undefined;
+// Set from the running command's --json; SDK progress lines are dropped so stdout stays JSON.
+let jsonOutput = false;
+
+/** The --wallets registry (or MOLTMOON_WALLETS); the mnemonic comes from MOLTMOON_MNEMONIC. */
+function loadWallets(options: CliOptions): Promise<WalletRegistry> {
+    const target = options.wallets || process.env.MOLTMOON_WALLETS;
+    if (!target) fail('No wallet registry. Pass --wallets <file|dir> or set MOLTMOON_WALLETS.');
+    walletRegistry ??= loadWalletRegistry(target).then((config) => WalletRegistry.load({
+        ...config,
+        mnemonic: process.env.MOLTMOON_MNEMONIC,
+        // One prompt for the whole fleet; a wallet with a different password fails on its own.
+        password: (wallet: WalletInfo) => process.env.MOLTMOON_KEYSTORE_PASSWORD
+            ?? (walletPassword ??= promptHidden(`Keystore password (${wallet.name}): `))
+    }));
+    return walletRegistry;
+}
+
+async function createSDK(options: CliOptions, requireSigner = false, wallet = options.wallet): Promise<MoltmoonSDK> {
     const baseUrl = resolveBaseUrl(options);
     const network = resolveNetwork(options);
-    const privateKey = (options.privateKey || process.env.MOLTMOON_PRIVATE_KEY || process.env.PRIVATE_KEY) as `0x${string}` | undefined;
+    // Paper trades are filled by the ledger, so no key is needed (or unlocked).
+    if (options.paper) requireSigner = false;
+    if (wallet && (options.privateKey || options.keystore)) {
+        fail('Pass either --wallet or --private-key/--keystore, not several.');
+    }
+    let account;
+    if (wallet && !options.paper) {
+        const registry = await loadWallets(options);
+        // As with --keystore, keystores are only unlocked for commands that sign.
+        if (requireSigner || registry.get(wallet).source === 'hd') account = await registry.account(wallet);
+    }
+    const privateKey = options.paper || wallet ? undefined : await resolvePrivateKey(options, requireSigner);
 
-    if (requireSigner && !privateKey) {
-        fail('Missing private key. Set MOLTMOON_PRIVATE_KEY (or PRIVATE_KEY) or pass --private-key.');
+    if (requireSigner && !privateKey && !account) {
+        fail('Missing signer. Set MOLTMOON_PRIVATE_KEY (or PRIVATE_KEY), pass --private-key, --keystore <file> or --wallet <name>.');
     }
 
+    const factory = options.trustedFactory || process.env.MOLTMOON_FACTORY || undefined;
+    if (factory && !isAddress(factory)) fail(`Invalid factory address: ${factory}`);
+    const migration = options.trustedMigration || process.env.MOLTMOON_MIGRATION || undefined;
+    if (migration && !isAddress(migration)) fail(`Invalid migration address: ${migration}`);
+
     const config: MoltmoonConfig = {
         baseUrl,
         network,
-        privateKey
+        privateKey,
+        account,
+        rpcUrl: options.rpcUrl || process.env.MOLTMOON_RPC_URL || undefined,
+        pipelineApprovals: options.pipeline,
+        maxFeePerGas: options.maxFee ? parseGwei(options.maxFee) : undefined,
+        maxPriorityFeePerGas: options.maxPriorityFee ? parseGwei(options.maxPriorityFee) : undefined,
+        trustedContracts: { factory: factory as `0x${string}` | undefined, migration: migration as `0x${string}` | undefined },
+        onLog: jsonOutput ? () => {} : undefined,
+        mode: options.paper ? 'paper' : 'live',
+        paper: options.paper
+            ? { stateFile: options.paperState || process.env.MOLTMOON_PAPER_STATE || DEFAULT_PAPER_STATE, usdc: options.paperUsdc }
+            : undefined
     };
 
     return new MoltmoonSDK(config);
 }
 
+async function confirm(question: string, asJson = false): Promise<boolean> {
+    if (!process.stdin.isTTY) {
+        fail('Confirmation required. Pass --yes for non-interactive use.', asJson);
+    }
+    // Prompt on stderr so --json stdout stays machine-readable.
+    const rl = createInterface({ input: process.stdin, output: process.stderr });
+    try {
+        const answer = await rl.question(`${question} [y/N] `);
+        return /^y(es)?$/i.test(answer.trim());
+    } finally {
+        rl.close();
+    }
+}
+
+function printPreview(preview: TradePreview, asJson = false): void {
+    const [inUnit, outUnit] = preview.side === 'buy' ? ['USDC', 'tokens'] : ['tokens', 'USDC'];
+    const lines = [
+        `Venue: ${preview.venue === 'aerodrome' ? 'Aerodrome pool (graduated)' : 'bonding curve'}`,
+        `In: ${preview.amountIn} ${inUnit}`,
+        `Expected out: ${preview.expectedOut} ${outUnit}`,
+        `Min out: ${preview.minAmountOut} ${outUnit} (slippage ${preview.slippageBps} bps)`,
+        `Fee: ${preview.feePaid} USDC | Price impact: ${preview.priceImpactBps} bps`
+    ];
+    for (const line of lines) {
+        if (asJson) console.error(line);
+        else console.log(line);
+    }
+}
+
+function printSimulation(result: SimulationResult, asJson = false): void {
+    if (asJson) {
+        console.log(JSON.stringify({ success: true, simulated: true, ...result }));
+        return;
+    }
+    console.log('Simulation OK. Nothing was sent.');
+    for (const step of result.steps) {
+        console.log(`- ${step.description ?? step.to}: ${step.gas} gas${step.simulated ? '' : ' (upper bound, not simulated)'}`);
+    }
+    const usdc = result.costUsdc === null ? '' : ` (~${result.costUsdc} USDC)`;
+    console.log(`Estimated cost: ${result.costEth} ETH${usdc} | max ${result.maxCostEth} ETH`);
+}
+
+function withExport(command: Command): Command {
+    return command
+        .option('--export <file>', 'Write the unsigned transactions to a file instead of sending')
+        .option('--export-format <format>', 'safe (Transaction Builder JSON) or eip1559 (raw unsigned txs)', 'safe')
+        .option('--from <address>', 'Sender the export is built for (the Safe for --export-format safe)');
+}
+
+/** Exports only need a signer to learn the sender address. */
+function exportNeedsSigner(options: ExportOptions): boolean {
+    return !options.export || !options.from;
+}
+
+async function writeExport(sdk: MoltmoonSDK, intents: TransactionIntent[], options: ExportOptions): Promise<void> {
+    const format = options.exportFormat ?? 'safe';
+    let payload: unknown;
+    if (format === 'safe') {
+        if (!options.from) fail('--export-format safe requires --from <safe address>.', options.json);
+        payload = sdk.exportSafeBatch(intents, options.from);
+    } else if (format === 'eip1559') {
+        payload = await sdk.exportUnsignedTransactions(intents, { from: options.from });
+    } else {
+        fail(`Unknown --export-format "${format}". Use safe or eip1559.`, options.json);
+    }
+    await writeFile(options.export!, JSON.stringify(payload, null, 2));
+    if (options.json) {
+        console.log(JSON.stringify({ success: true, exported: options.export, format, transactions: intents.length }));
+        return;
+    }
+    console.log(`Exported ${intents.length} transaction(s) to ${options.export} (${format}). Nothing was sent.`);
+}
+
+function toCsv(rows: object[], columns: string[]): string {
+    const cell = (value: unknown) => {
+        const text = String(value ?? '');
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(','), ...rows.map((row) => columns.map((column) => cell((row as Record<string, unknown>)[column])).join(','))].join('\n');
+}
+
+function tradeOptions(options: { minOut?: string; maxImpact?: string }): TradeOptions {
+    return {
+        minAmountOut: options.minOut,
+        maxPriceImpactBps: options.maxImpact !== undefined ? Number(options.maxImpact) : undefined
+    };
+}
+
+type WalletRow = { wallet: string; address: string; code?: string; error?: string } & Record<string, unknown>;
+
+/**
+ * Run `fn` for every registry wallet in turn. `sdk` is shared and read-only; `signer()` unlocks
+ * the wallet, so keystores are only decrypted for wallets that send. A failing wallet gets an
+ * error row and the rest still run.
+ */
+async function forEachWallet(
+    options: CliOptions,
+    fn: (wallet: WalletInfo, sdk: MoltmoonSDK, signer: () => Promise<MoltmoonSDK>) => Promise<Record<string, unknown>>
+): Promise<WalletRow[]> {
+    const registry = await loadWallets(options);
+    const sdk = await createSDK(options, false, '');
+    const rows: WalletRow[] = [];
+    for (const wallet of registry.list()) {
+        try {
+            rows.push({ wallet: wallet.name, address: wallet.address, ...(await fn(wallet, sdk, () => createSDK(options, true, wallet.name))) });
+        } catch (error) {
+            // viem errors carry a multi-line message; the short one fits a table row.
+            const message = error instanceof Error ? (error as { shortMessage?: string }).shortMessage ?? error.message : String(error);
+            rows.push({ wallet: wallet.name, address: wallet.address, code: errorCode(error), error: message });
+        }
+    }
+    return rows;
+}
+
+/** Aggregated fan-out output; exits 1 when any wallet failed. */
+function printWalletRows(rows: WalletRow[], summary: Record<string, unknown>, text: string, asJson = false): void {
+    const failed = rows.filter((row) => row.error !== undefined).length;
+    if (asJson) {
+        console.log(JSON.stringify({ success: failed === 0, ...summary, failed, wallets: rows }));
+    } else {
+        console.table(rows.map(({ code, ...row }) => row));
+        console.log(failed ? `${text} (${failed} wallet(s) failed)` : text);
+    }
+    if (failed) process.exit(1);
+}
+
 const program = new Command();
 
 program
@@ -63,38 +331,73 @@ program
     .version('0.2.0')
     .option('--api-url <url>', 'API base URL (default: https://api.moltmoon.ai)')
     .option('--network <network>', 'base')
-    .option('--private-key <hex>', 'Signer private key (0x...)');
+    .option('--private-key <hex>', 'Signer private key (0x...)')
+    .option('--keystore <file>', 'Encrypted V3 keystore JSON (password prompted or MOLTMOON_KEYSTORE_PASSWORD)')
+    .option('--rpc-url <url>', 'Chain RPC URL (default: MOLTMOON_RPC_URL or public Base RPC)')
+    .option('--pipeline', 'Send approve + trade back to back without waiting for the approve')
+    .option('--max-fee <gwei>', 'Cap maxFeePerGas; refuse to send while the base fee is above it')
+    .option('--max-priority-fee <gwei>', 'Cap maxPriorityFeePerGas')
+    .option('--paper', 'Paper trading: buy/sell fill against a virtual ledger at live quotes; nothing is signed')
+    .option('--paper-state <file>', `Paper ledger file (default: MOLTMOON_PAPER_STATE or ./${DEFAULT_PAPER_STATE})`)
+    .option('--paper-usdc <amount>', 'Starting USDC for a new paper ledger (default: 1000)')
+    .option('--wallets <file|dir>', 'Wallet registry: JSON/YAML file or keystore directory (default: MOLTMOON_WALLETS)')
+    .option('--wallet <name>', 'Sign with this wallet from the registry')
+    .option('--trusted-factory <address>', 'MoltMoon factory that launch intents must target (default: MOLTMOON_FACTORY)')
+    .option('--trusted-migration <address>', 'V1 -> V2 migration contract that migrate intents must target (default: MOLTMOON_MIGRATION)')
+    .hook('preAction', (_program, command) => {
+        const options = command.opts();
+        jsonOutput = Boolean(options.json);
+        // The ledger only fills trades: there is no paper gas estimate or unsigned tx to hand out.
+        for (const flag of ['simulate', 'export']) {
+            if (program.opts<CliOptions>().paper && options[flag]) fail(new PaperModeError(`--${flag}`), jsonOutput);
+        }
+    });
 
-program.command('launch')
+withExport(program.command('launch')
     .description('Launch a new AI Agent Token')
-    .requiredOption('-n, --name <string>', 'Token name')
-    .requiredOption('-s, --symbol <string>', 'Token symbol')
-    .requiredOption('-d, --description <string>', 'Token description')
+    .option('-c, --config <file>', 'Launch parameters from a JSON or YAML file; flags override its values')
+    .option('-n, --name <string>', 'Token name')
+    .option('-s, --symbol <string>', 'Token symbol')
+    .option('-d, --description <string>', 'Token description')
     .option('-w, --website <string>', 'Website URL')
     .option('--twitter <string>', 'Twitter/X URL')
     .option('--telegram <string>', 'Telegram URL')
     .option('--discord <string>', 'Discord URL')
-    .option('--image <pathOrDataUrl>', 'Local image path or data URL')
-    .option('--seed <amount>', 'Seed liquidity in USDC', '20')
+    .option('--image <pathOrUrl>', 'Local image path, https URL or data URL (PNG, JPEG, WebP, GIF)')
+    .option('--normalize-image', 'Crop, resize and recompress the image if it breaks the upload rules')
+    .option('--seed <amount>', 'Seed liquidity in USDC (default: 20)')
+    .option('--dev-buy <usdc>', 'Creator buy in USDC, sent right after the token is created')
+    .option('--dev-buy-slippage <bps>', 'Slippage for the creator buy in bps (default: 500)')
     .option('--dry-run', 'Validate/upload metadata + build intents without sending tx')
-    .option('--json', 'Output result as JSON')
+    .option('--simulate', 'Simulate approve + create and print the gas cost without sending')
+    .option('--json', 'Output result as JSON'))
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global, !options.dryRun);
-            const launchParams = {
-                name: options.name,
-                symbol: options.symbol,
-                description: options.description,
-                seedAmount: options.seed,
-                imageFile: options.image,
+            const config = options.config ? await loadLaunchConfig(options.config) : undefined;
+            const launchParams: LaunchParams = {
+                name: options.name ?? config?.name,
+                symbol: options.symbol ?? config?.symbol,
+                description: options.description ?? config?.description,
+                seedAmount: options.seed ?? config?.seedAmount ?? '20',
+                initialBuyUsdc: options.devBuy ?? config?.initialBuyUsdc,
+                initialBuySlippageBps: options.devBuySlippage !== undefined ? Number(options.devBuySlippage) : config?.initialBuySlippageBps,
+                imageFile: options.image ?? config?.imageFile,
+                normalizeImage: options.normalizeImage ?? config?.normalizeImage,
                 socials: {
-                    website: options.website,
-                    twitter: options.twitter,
-                    telegram: options.telegram,
-                    discord: options.discord
+                    website: options.website ?? config?.socials?.website,
+                    twitter: options.twitter ?? config?.socials?.twitter,
+                    telegram: options.telegram ?? config?.socials?.telegram,
+                    discord: options.discord ?? config?.socials?.discord
                 }
             };
+            for (const flag of ['name', 'symbol', 'description'] as const) {
+                if (!launchParams[flag]) fail(`Missing --${flag} (or "${flag}" in --config).`, options.json);
+            }
+            if (launchParams.initialBuyUsdc && options.export) {
+                fail('--dev-buy cannot be exported: the market address is only known once the create is mined.', options.json);
+            }
+            const sdk = await createSDK(global, !options.dryRun && exportNeedsSigner(options));
 
             if (options.dryRun) {
                 const prep = await sdk.prepareLaunchToken(launchParams);
@@ -109,6 +412,16 @@ program.command('launch')
                 return;
             }
 
+            if (options.simulate) {
+                printSimulation(await sdk.simulateLaunchToken(launchParams), options.json);
+                return;
+            }
+            if (options.export) {
+                const prep = await sdk.prepareLaunchToken(launchParams);
+                await writeExport(sdk, [prep.approveIntent, prep.createIntent], options);
+                return;
+            }
+
             const result = await sdk.launchToken(launchParams);
 
             if (options.json) {
@@ -118,22 +431,203 @@ program.command('launch')
 
             console.log('Success!');
             console.log(`Hash: ${result.hash}`);
+            console.log(`Token: ${result.tokenAddress}`);
+            console.log(`Market: ${result.marketAddress}`);
+            console.log(`Rewards pool: ${result.rewardsPool}`);
+            console.log(`Block: ${result.blockNumber} | Gas used: ${result.gasUsed}`);
             console.log(`Explorer: https://basescan.org/tx/${result.hash}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+            if (result.initialBuy) {
+                console.log(`Creator buy: ${result.initialBuy.tokensOut} tokens for ${result.initialBuy.usdcIn} USDC (tx ${result.initialBuy.hash})`);
+            } else if (result.initialBuyError) {
+                console.log(`Creator buy failed: ${result.initialBuyError.message}`);
+                console.log(`The token is live; retry with: mltl buy --market ${result.marketAddress} --usdc ${launchParams.initialBuyUsdc}`);
+            }
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('launch-batch')
+    .description('Validate and launch several tokens from config files, one after another, resumably')
+    .argument('<path>', 'Directory of JSON/YAML launch configs, or one file with a list (or { launches: [...] })')
+    .option('--state <file>', 'Progress file (default: <dir>/.launch-state.json or <file>.state.json)')
+    .option('--dry-run', 'Upload metadata and build intents for every entry without sending tx')
+    .option('--retry-pending', 'Relaunch entries an interrupted run left pending (check on-chain first)')
+    .option('--json', 'Output result as JSON')
+    .action(async (target, options) => {
+        const global = program.opts<CliOptions>();
+        const log = (line: string) => {
+            if (!options.json) console.log(line);
+        };
+        try {
+            const entries = await loadLaunchBatch(target);
+            if (entries.length === 0) fail(`No launch configs found in ${target}.`, options.json);
+            let sdk = await createSDK(global);
+
+            // Check everything before launching anything.
+            const errors: { id: string; error: string }[] = [];
+            const symbols = new Map<string, string>();
+            for (const entry of entries) {
+                if (!entry.params) {
+                    errors.push({ id: entry.id, error: entry.error! });
+                    continue;
+                }
+                try {
+                    sdk.validateLaunchParams(entry.params);
+                    if (entry.params.imageFile) {
+                        await sdk.checkLaunchImage(entry.params.imageFile, { normalize: entry.params.normalizeImage });
+                    }
+                    const symbol = entry.params.symbol.trim().toUpperCase();
+                    const other = symbols.get(symbol);
+                    if (other) throw new Error(`Symbol ${symbol} is also used by ${other}.`);
+                    symbols.set(symbol, entry.id);
+                } catch (error) {
+                    errors.push({ id: entry.id, error: (error as Error).message });
+                }
+            }
+            if (errors.length > 0) {
+                if (options.json) {
+                    console.error(JSON.stringify({ success: false, code: 'VALIDATION_ERROR', error: `${errors.length} invalid launch config(s).`, errors }));
+                } else {
+                    console.error(`${errors.length} of ${entries.length} launch config(s) are invalid; nothing was launched.`);
+                    for (const { id, error } of errors) console.error(`  ${id}: ${error}`);
+                }
+                process.exit(1);
+            }
+            if (!options.dryRun) sdk = await createSDK(global, true);
+
+            if (options.dryRun) {
+                const prepared = [];
+                for (const entry of entries) {
+                    const prep = await sdk.prepareLaunchToken(entry.params!);
+                    prepared.push({ id: entry.id, ...prep });
+                    log(`${entry.id}: OK (${entry.params!.symbol}, metadata ${prep.metadataURI.length} bytes${prep.imageUrl ? `, image ${prep.imageUrl}` : ''})`);
+                }
+                if (options.json) console.log(JSON.stringify({ success: true, dryRun: true, entries: prepared }));
+                return;
+            }
+
+            const stateFile = options.state ?? await defaultLaunchStateFile(target);
+            const state: LaunchBatchState = await readLaunchBatchState(stateFile);
+            const pending = entries.filter((entry) => state.entries[entry.id]?.status === 'pending');
+            if (pending.length > 0 && !options.retryPending) {
+                fail(`${pending.map((entry) => entry.id).join(', ')} did not finish in a previous run and may already be launched. `
+                    + `Check the creator's launches on-chain, then rerun with --retry-pending or mark them in ${stateFile}.`, options.json);
+            }
+
+            const launched = [];
+            for (const entry of entries) {
+                const record = state.entries[entry.id];
+                if (record?.status === 'launched') {
+                    log(`${entry.id}: already launched (${record.tokenAddress}), skipping`);
+                    continue;
+                }
+                state.entries[entry.id] = { status: 'pending', startedAt: new Date().toISOString() };
+                await writeLaunchBatchState(stateFile, state);
+                log(`${entry.id}: launching ${entry.params!.symbol}...`);
+                try {
+                    const result = await sdk.launchToken(entry.params!);
+                    state.entries[entry.id] = { status: 'launched', launchedAt: new Date().toISOString(), ...result };
+                    await writeLaunchBatchState(stateFile, state);
+                    launched.push({ id: entry.id, ...result });
+                    log(`${entry.id}: token ${result.tokenAddress} market ${result.marketAddress} (tx ${result.hash})`);
+                    if (result.initialBuy) log(`${entry.id}: creator buy ${result.initialBuy.tokensOut} tokens (tx ${result.initialBuy.hash})`);
+                    if (result.initialBuyError) log(`${entry.id}: creator buy failed: ${result.initialBuyError.message}`);
+                } catch (error) {
+                    // A tx that was broadcast but never confirmed stays pending: it may still land.
+                    const unconfirmed = error instanceof TransactionError && error.hash && !(error instanceof TransactionRevertedError);
+                    if (!unconfirmed) {
+                        state.entries[entry.id] = {
+                            status: 'failed',
+                            failedAt: new Date().toISOString(),
+                            code: errorCode(error),
+                            error: error instanceof Error ? error.message : String(error)
+                        };
+                        await writeLaunchBatchState(stateFile, state);
+                    }
+                    log(`${entry.id}: failed. Progress saved to ${stateFile}; rerun to resume.`);
+                    throw error;
+                }
+            }
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, state: stateFile, launched }));
+                return;
+            }
+            console.log(`Done: ${launched.length} launched, ${entries.length - launched.length} already done. State: ${stateFile}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('image-check')
+    .description('Check a launch image and report exactly what would be uploaded')
+    .argument('<path>', 'Local image path, https URL or data URL')
+    .option('--normalize', 'Crop, resize and recompress if the image breaks the upload rules')
+    .option('--out <file>', 'Write the bytes that would be uploaded to this file')
+    .option('--json', 'Output result as JSON')
+    .action(async (path, options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK(global);
+            const image = await sdk.checkLaunchImage(path, { normalize: options.normalize });
+            if (options.out) {
+                await writeFile(options.out, Buffer.from(image.dataUrl.slice(image.dataUrl.indexOf(',') + 1), 'base64'));
+            }
+            const { dataUrl, ...report } = image;
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, ...report, ...(options.out ? { out: options.out } : {}) }));
+                return;
+            }
+            if (image.original) {
+                const { mime, width, height, bytes } = image.original;
+                console.log(`Input: ${mime} ${width}x${height}, ${(bytes / 1024).toFixed(1)}KB (normalized)`);
+            }
+            console.log(`Upload: ${image.mime} ${image.width}x${image.height}, ${(image.bytes / 1024).toFixed(1)}KB`);
+            if (options.out) console.log(`Wrote ${options.out}`);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
 program.command('tokens')
     .description('List tokens')
+    .option('--creator <address>', 'Only tokens launched by this address')
+    .option('--search <text>', 'Name or symbol contains text, or exact token/market address')
+    .option('--graduated', 'Only graduated tokens')
+    .option('--not-graduated', 'Only tokens still on the bonding curve')
+    .option('--min-market-cap <usdc>', 'Minimum market cap in USDC')
+    .option('--sort <field>', 'Sort by newest, marketCap, raised or progress', 'newest')
+    .option('--limit <n>', 'Page size')
+    .option('--cursor <cursor>', 'Continue from a previous page')
+    .option('--all', 'Fetch every page')
     .option('--json', 'Output result as JSON')
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global);
-            const tokens = await sdk.getTokens();
+            if (options.graduated && options.notGraduated) {
+                fail('Pass at most one of --graduated and --not-graduated.', options.json);
+            }
+            const query: TokenQuery = {
+                creator: options.creator,
+                search: options.search,
+                graduated: options.graduated ? true : options.notGraduated ? false : undefined,
+                minMarketCap: options.minMarketCap !== undefined ? Number(options.minMarketCap) : undefined,
+                sortBy: options.sort,
+                limit: options.limit !== undefined ? Number(options.limit) : undefined,
+                cursor: options.cursor
+            };
+            const sdk = await createSDK(global);
+            let page: TokenPage;
+            if (options.all) {
+                const tokens = [];
+                for await (const token of sdk.iterateTokens(query)) tokens.push(token);
+                page = { tokens, nextCursor: null };
+            } else {
+                page = await sdk.getTokensPage(query);
+            }
+            const { tokens, nextCursor } = page;
             if (options.json) {
-                console.log(JSON.stringify({ success: true, count: tokens.length, tokens }));
+                console.log(JSON.stringify({ success: true, count: tokens.length, tokens, nextCursor }));
                 return;
             }
             console.table(tokens.map((t) => ({
@@ -142,51 +636,267 @@ program.command('tokens')
                 token: t.token,
                 market: t.market
             })));
-        } catch (error: any) {
-            fail(error.message, options.json);
+            if (nextCursor) console.log(`More results: --cursor ${nextCursor}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('token-info')
+    .description('Show token metadata (name, description, image, socials) and current market state')
+    .requiredOption('--token <address>', 'Token or market address')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK(global);
+            const token = await sdk.getToken(options.token);
+            const [metadata, market] = await Promise.all([
+                sdk.getTokenMetadata(token).catch((error) => {
+                    if (error instanceof MetadataError) return error;
+                    throw error;
+                }),
+                sdk.getMarket(token.market)
+            ]);
+            const metadataError = metadata instanceof MetadataError ? metadata.message : undefined;
+            if (options.json) {
+                console.log(JSON.stringify({
+                    success: true,
+                    token: token.token,
+                    market: token.market,
+                    creator: token.creator,
+                    uri: token.uri,
+                    metadata: metadataError ? null : metadata,
+                    ...(metadataError ? { metadataError } : {}),
+                    marketState: market
+                }));
+                return;
+            }
+            console.log(`${token.name} (${token.symbol})`);
+            console.log(`Token: ${token.token}`);
+            console.log(`Market: ${token.market}`);
+            console.log(`Creator: ${token.creator}`);
+            if (metadata instanceof MetadataError) {
+                console.log(`Metadata: unavailable (${metadata.message})`);
+            } else {
+                if (metadata.description) console.log(`Description: ${metadata.description}`);
+                if (metadata.image) console.log(`Image: ${metadata.image.startsWith('data:') ? `${metadata.image.slice(0, 32)}...` : metadata.image}`);
+                for (const key of ['website', 'twitter', 'telegram', 'discord'] as const) {
+                    if (metadata[key]) console.log(`${key[0].toUpperCase()}${key.slice(1)}: ${metadata[key]}`);
+                }
+            }
+            console.log(`Progress: ${market.progressPercent.toFixed(2)}%${market.graduated ? ' (graduated)' : ''}`);
+            console.log(`Raised: ${formatUnits(BigInt(market.baseReserveReal), 6)} USDC | Curve tokens left: ${formatUnits(BigInt(market.curveTokensRemaining), 18)}`);
+            console.log(`Market cap: ${sdk.calculateMarketCap(market).toFixed(2)} USDC`);
+            if (market.aerodromePool) console.log(`Aerodrome pool: ${market.aerodromePool}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('portfolio')
+    .description('Show token balances, sell value, curve progress and unclaimed rewards for a wallet')
+    .option('--account <address>', 'Wallet address (default: the signer, or the paper account with --paper)')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK(global);
+            const portfolio = await sdk.getPortfolio(options.account ?? await sdk.getAddress());
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, ...portfolio }));
+                return;
+            }
+            console.log(`Account: ${portfolio.account}`);
+            console.log(`USDC: ${portfolio.usdcBalance}`);
+            if (portfolio.positions.length === 0) {
+                console.log('No MoltMoon token positions.');
+                return;
+            }
+            console.table(portfolio.positions.map((p) => ({
+                symbol: p.symbol,
+                balance: p.balance,
+                valueUsdc: p.valueUsdc ?? 'n/a',
+                progress: `${p.progressPercent}%${p.graduated ? ' (graduated)' : ''}`,
+                rewards: p.unclaimedRewards,
+                market: p.market
+            })));
+            console.log(`Total position value: ${portfolio.totalValueUsdc} USDC`);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
-program.command('buy')
+withExport(program.command('buy')
     .description('Buy token from a market')
     .requiredOption('--market <address>', 'Market address')
-    .requiredOption('--usdc <amount>', 'USDC amount to spend')
+    .option('--usdc <amount>', 'USDC amount to spend')
+    .option('--tokens-out <amount>', 'Exact token amount to receive (requires --max-usdc)')
+    .option('--max-usdc <amount>', 'Maximum USDC to spend with --tokens-out')
     .option('--slippage <bps>', 'Slippage in bps', '500')
-    .option('--json', 'Output result as JSON')
+    .option('--min-out <tokens>', 'Explicit minimum tokens out (overrides --slippage)')
+    .option('--max-impact <bps>', 'Refuse the trade above this price impact')
+    .option('--simulate', 'Simulate and print the gas cost without sending')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .option('--json', 'Output result as JSON'))
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global, true);
-            const hash = await sdk.buy(options.market, options.usdc, Number(options.slippage));
+            if (!!options.usdc === !!options.tokensOut) {
+                fail('Pass exactly one of --usdc or --tokens-out.', options.json);
+            }
+            if (options.tokensOut && !options.maxUsdc) {
+                fail('--tokens-out requires --max-usdc.', options.json);
+            }
+            const sdk = await createSDK(global, exportNeedsSigner(options));
+            const exact = !!options.tokensOut;
+            const usdc = exact ? await sdk.getUsdcForExactTokens(options.market, options.tokensOut) : options.usdc;
+            if (exact && parseUnits(usdc, 6) > parseUnits(options.maxUsdc, 6)) {
+                fail(`Buying ${options.tokensOut} tokens costs ${usdc} USDC, above --max-usdc ${options.maxUsdc}.`, options.json);
+            }
+            const slippage = exact ? 0 : Number(options.slippage);
+            const trade = exact ? { ...tradeOptions(options), minAmountOut: options.tokensOut } : tradeOptions(options);
+            const preview = await sdk.previewBuy(options.market, usdc, slippage, trade);
+            printPreview(preview, options.json);
+            if (options.simulate) {
+                printSimulation(await sdk.simulateBuy(options.market, usdc, slippage, { ...trade, minAmountOut: preview.minAmountOut }), options.json);
+                return;
+            }
+            if (options.export) {
+                const intents = await sdk.prepareBuy(options.market, usdc, slippage, { ...trade, minAmountOut: preview.minAmountOut, from: options.from });
+                await writeExport(sdk, intents, options);
+                return;
+            }
+            if (!options.yes && !(await confirm('Send buy?', options.json))) {
+                fail(new AbortedError(new Error('declined at confirmation prompt')), options.json);
+            }
+            // Pin the floor that was shown so a re-quote cannot loosen it.
+            const hash = exact
+                ? await sdk.buyExactTokens(options.market, options.tokensOut, options.maxUsdc, trade)
+                : await sdk.buy(options.market, usdc, slippage, { ...trade, minAmountOut: preview.minAmountOut });
             if (options.json) {
-                console.log(JSON.stringify({ success: true, hash }));
+                console.log(JSON.stringify({ success: true, hash, preview, ...(global.paper ? { paper: true } : {}) }));
                 return;
             }
-            console.log(`Buy tx: ${hash}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+            console.log(`${global.paper ? '[paper] ' : ''}Buy tx (${preview.venue}): ${hash}`);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
-program.command('sell')
+withExport(program.command('sell')
     .description('Sell token into a market')
     .requiredOption('--market <address>', 'Market address')
     .requiredOption('--token <address>', 'Token address')
-    .requiredOption('--amount <tokensIn>', 'Token amount to sell')
+    .option('--amount <tokensIn>', 'Token amount to sell')
+    .option('--all', 'Sell the entire wallet balance')
+    .option('--percent <pct>', 'Sell a percentage (0-100] of the wallet balance')
     .option('--slippage <bps>', 'Slippage in bps', '500')
-    .option('--json', 'Output result as JSON')
+    .option('--min-out <usdc>', 'Explicit minimum USDC out (overrides --slippage)')
+    .option('--max-impact <bps>', 'Refuse the trade above this price impact')
+    .option('--simulate', 'Simulate and print the gas cost without sending')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .option('--json', 'Output result as JSON'))
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global, true);
-            const hash = await sdk.sell(options.market, options.amount, options.token, Number(options.slippage));
+            if ([options.amount, options.all, options.percent].filter(Boolean).length !== 1) {
+                fail('Pass exactly one of --amount, --all or --percent.', options.json);
+            }
+            const sdk = await createSDK(global, exportNeedsSigner(options));
+            const amount = options.amount
+                ?? await sdk.getSellAmountForPercent(options.token, options.all ? 100 : Number(options.percent), options.from);
+            const slippage = Number(options.slippage);
+            const preview = await sdk.previewSell(options.market, amount, slippage, tradeOptions(options));
+            printPreview(preview, options.json);
+            if (options.simulate) {
+                const trade = { ...tradeOptions(options), minAmountOut: preview.minAmountOut };
+                printSimulation(await sdk.simulateSell(options.market, amount, options.token, slippage, trade), options.json);
+                return;
+            }
+            if (options.export) {
+                const trade = { ...tradeOptions(options), minAmountOut: preview.minAmountOut, from: options.from };
+                await writeExport(sdk, await sdk.prepareSell(options.market, amount, options.token, slippage, trade), options);
+                return;
+            }
+            if (!options.yes && !(await confirm('Send sell?', options.json))) {
+                fail(new AbortedError(new Error('declined at confirmation prompt')), options.json);
+            }
+            const hash = await sdk.sell(options.market, amount, options.token, slippage, {
+                ...tradeOptions(options),
+                minAmountOut: preview.minAmountOut
+            });
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, hash, preview, ...(global.paper ? { paper: true } : {}) }));
+                return;
+            }
+            console.log(`${global.paper ? '[paper] ' : ''}Sell tx (${preview.venue}): ${hash}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+withExport(program.command('approve')
+    .description('Approve a spender on an ERC20 token')
+    .requiredOption('--token <address>', 'Token address')
+    .requiredOption('--spender <address>', 'Spender address (e.g. market)')
+    .option('--amount <amount>', 'Amount in token units')
+    .option('--infinite', 'Approve unlimited (maxUint256)')
+    .option('--simulate', 'Simulate and print the gas cost without sending')
+    .option('--json', 'Output result as JSON'))
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            if (!options.amount && !options.infinite) {
+                fail('Pass --amount <amount> or --infinite.', options.json);
+            }
+            const sdk = await createSDK(global, exportNeedsSigner(options));
+            const amount = options.infinite ? undefined : options.amount;
+            if (options.simulate) {
+                printSimulation(await sdk.simulateApprove(options.token, options.spender, amount), options.json);
+                return;
+            }
+            if (options.export) {
+                await writeExport(sdk, await sdk.prepareApprove(options.token, options.spender, amount), options);
+                return;
+            }
+            const hash = await sdk.approve(options.token, options.spender, amount);
             if (options.json) {
                 console.log(JSON.stringify({ success: true, hash }));
                 return;
             }
-            console.log(`Sell tx: ${hash}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+            console.log(`Approve tx: ${hash}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+withExport(program.command('revoke')
+    .description('Revoke a spender allowance on an ERC20 token')
+    .requiredOption('--token <address>', 'Token address')
+    .requiredOption('--spender <address>', 'Spender address')
+    .option('--simulate', 'Simulate and print the gas cost without sending')
+    .option('--json', 'Output result as JSON'))
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK(global, exportNeedsSigner(options));
+            if (options.simulate) {
+                printSimulation(await sdk.simulateRevokeApproval(options.token, options.spender), options.json);
+                return;
+            }
+            if (options.export) {
+                await writeExport(sdk, await sdk.prepareRevokeApproval(options.token, options.spender), options);
+                return;
+            }
+            const hash = await sdk.revokeApproval(options.token, options.spender);
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, hash }));
+                return;
+            }
+            console.log(`Revoke tx: ${hash}`);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
@@ -198,15 +908,15 @@ program.command('quote-buy')
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global);
+            const sdk = await createSDK(global);
             const quote = await sdk.getQuoteBuy(options.market, options.usdc);
             if (options.json) {
                 console.log(JSON.stringify({ success: true, quote }));
                 return;
             }
-            console.log(`Out: ${quote.amountOut} | Fee: ${quote.feePaid}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+            console.log(`Out: ${quote.amountOut} | Fee: ${quote.feePaid} | Venue: ${quote.venue ?? 'curve'}`);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
@@ -218,54 +928,166 @@ program.command('quote-sell')
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global);
+            const sdk = await createSDK(global);
             const quote = await sdk.getQuoteSell(options.market, options.tokens);
             if (options.json) {
                 console.log(JSON.stringify({ success: true, quote }));
                 return;
             }
-            console.log(`Out: ${quote.amountOut} | Fee: ${quote.feePaid}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+            console.log(`Out: ${quote.amountOut} | Fee: ${quote.feePaid} | Venue: ${quote.venue ?? 'curve'}`);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
 program.command('rewards-earned')
     .description('Check unclaimed USDC rewards for $MOLTM holders')
     .requiredOption('--pool <address>', 'HolderRewardsPool address')
-    .requiredOption('--account <address>', 'Wallet address to check')
+    .option('--account <address>', 'Wallet address to check')
+    .option('--all-wallets', 'Check every wallet in the registry')
     .option('--json', 'Output result as JSON')
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global);
+            if (!options.account === !options.allWallets) {
+                fail('Pass exactly one of --account <address> and --all-wallets.', options.json);
+            }
+            if (options.allWallets) {
+                const rows = await forEachWallet(global, async (wallet, sdk) => {
+                    const { earned, earnedRaw } = await sdk.getRewardsEarned(options.pool, wallet.address);
+                    return { earned, earnedRaw };
+                });
+                const total = formatUnits(rows.reduce((sum, row) => sum + BigInt((row.earnedRaw as string | undefined) ?? 0), 0n), 6);
+                printWalletRows(rows, { pool: options.pool, total }, `Total earned: ${total} USDC (${options.pool})`, options.json);
+                return;
+            }
+            const sdk = await createSDK(global);
             const result = await sdk.getRewardsEarned(options.pool, options.account);
             if (options.json) {
                 console.log(JSON.stringify({ success: true, ...result }));
                 return;
             }
             console.log(`Earned: ${result.earned} USDC (${result.pool})`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
-program.command('rewards-claim')
+withExport(program.command('rewards-claim')
     .description('Claim unclaimed USDC rewards')
     .requiredOption('--pool <address>', 'HolderRewardsPool address')
-    .option('--json', 'Output result as JSON')
+    .option('--all-wallets', 'Claim for every wallet in the registry that has rewards')
+    .option('--min <usdc>', 'With --all-wallets, skip wallets that earned less than this', '0')
+    .option('--simulate', 'Simulate and print the gas cost without sending')
+    .option('--json', 'Output result as JSON'))
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global, true);
+            if (options.allWallets) {
+                if (options.simulate || options.export) fail('--all-wallets cannot be combined with --simulate or --export.', options.json);
+                const min = parseUnits(options.min, 6);
+                let claimed = 0n;
+                const rows = await forEachWallet(global, async (wallet, reader, signer) => {
+                    const { earned, earnedRaw } = await reader.getRewardsEarned(options.pool, wallet.address);
+                    if (BigInt(earnedRaw) === 0n) return { earned, skipped: 'nothing earned' };
+                    if (BigInt(earnedRaw) < min) return { earned, skipped: 'below --min' };
+                    const hash = await (await signer()).claimRewards(options.pool);
+                    claimed += BigInt(earnedRaw);
+                    return { earned, hash };
+                });
+                const total = formatUnits(claimed, 6);
+                printWalletRows(rows, { pool: options.pool, claimed: total }, `Claimed ${total} USDC (${options.pool})`, options.json);
+                return;
+            }
+            const sdk = await createSDK(global, exportNeedsSigner(options));
+            if (options.simulate) {
+                printSimulation(await sdk.simulateClaimRewards(options.pool), options.json);
+                return;
+            }
+            if (options.export) {
+                await writeExport(sdk, await sdk.prepareClaimRewards(options.pool, { from: options.from }), options);
+                return;
+            }
             const hash = await sdk.claimRewards(options.pool);
             if (options.json) {
                 console.log(JSON.stringify({ success: true, hash }));
                 return;
             }
             console.log(`Claim tx: ${hash}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('wallets')
+    .description('List the wallets in the registry (--wallets or MOLTMOON_WALLETS)')
+    .option('--balances', 'Include USDC balances')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const rows = await forEachWallet(global, async (wallet, sdk) => ({
+                source: wallet.source,
+                from: wallet.path ?? wallet.file,
+                ...(options.balances ? { usdc: formatUnits(await sdk.getBalance(BASE_USDC, wallet.address), 6) } : {})
+            }));
+            printWalletRows(rows, {}, `${rows.length} wallet(s)`, options.json);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('consolidate')
+    .description('Sweep USDC (or a token) from every registry wallet into one address')
+    .requiredOption('--to <wallet|address>', 'Destination: a registry wallet name or any address')
+    .option('--token <address>', 'MoltMoon token to sweep instead of USDC')
+    .option('--dry-run', 'Print the transfers without sending')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const registry = await loadWallets(global);
+            const to = isAddress(options.to) ? options.to : registry.get(options.to).address;
+            const token = options.token ?? BASE_USDC;
+            const unit = options.token ? 'tokens' : 'USDC';
+            // transfer() parses amounts with the token's own decimals, so format with the same.
+            const decimals = options.token ? await (await createSDK(global, false, '')).getDecimals(token) : 6;
+
+            const balances = await forEachWallet(global, async (wallet, sdk) => {
+                if (wallet.address.toLowerCase() === to.toLowerCase()) return { amount: '0', amountRaw: '0', skipped: 'destination' };
+                const raw = await sdk.getBalance(token, wallet.address);
+                return { amount: formatUnits(raw, decimals), amountRaw: raw.toString() };
+            });
+            const sources = balances.filter((row) => row.error === undefined && !row.skipped && BigInt(row.amountRaw as string) > 0n);
+            const total = formatUnits(sources.reduce((sum, row) => sum + BigInt(row.amountRaw as string), 0n), decimals);
+            if (!sources.length || options.dryRun) {
+                const text = sources.length ? `Would move ${total} ${unit} to ${to}. Nothing was sent.` : `Nothing to move to ${to}.`;
+                printWalletRows(balances, { to, token, total, dryRun: !!options.dryRun }, text, options.json);
+                return;
+            }
+            if (!options.json) console.table(sources.map(({ wallet, address, amount }) => ({ wallet, address, amount })));
+            if (!options.yes && !(await confirm(`Send ${sources.length} transfer(s) totalling ${total} ${unit} to ${to}?`, options.json))) {
+                fail(new AbortedError(new Error('declined at confirmation prompt')), options.json);
+            }
+
+            const amounts = new Map(sources.map((row) => [row.wallet, { amount: row.amount as string, amountRaw: row.amountRaw as string }]));
+            let moved = 0n;
+            const rows = await forEachWallet(global, async (wallet, _sdk, signer) => {
+                const source = amounts.get(wallet.name);
+                if (source === undefined) {
+                    const read = balances.find((row) => row.wallet === wallet.name)!;
+                    if (read.error !== undefined) return { code: read.code, error: read.error };
+                    return { amount: read.amount, amountRaw: read.amountRaw, skipped: read.skipped ?? 'empty' };
+                }
+                const hash = await (await signer()).transfer(token, to, source.amount);
+                moved += BigInt(source.amountRaw);
+                return { ...source, hash };
+            });
+            const sent = formatUnits(moved, decimals);
+            printWalletRows(rows, { to, token, total: sent }, `Moved ${sent} ${unit} to ${to}`, options.json);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
@@ -275,7 +1097,7 @@ program.command('migration-status')
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global);
+            const sdk = await createSDK(global);
             const status = await sdk.getMigrationStatus();
             if (options.json) {
                 console.log(JSON.stringify({ success: true, ...status }));
@@ -285,27 +1107,346 @@ program.command('migration-status')
             console.log(`Migrated: ${status.totalMigrated} tokens`);
             console.log(`Remaining: ${status.remaining} tokens`);
             console.log(`Deadline: ${new Date(status.deadline * 1000).toISOString()}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
-program.command('migrate')
+withExport(program.command('migrate')
     .description('Migrate V1 tokens to V2')
     .requiredOption('--amount <tokens>', 'V1 token amount to migrate')
-    .option('--json', 'Output result as JSON')
+    .option('--simulate', 'Simulate and print the gas cost without sending')
+    .option('--json', 'Output result as JSON'))
     .action(async (options) => {
         const global = program.opts<CliOptions>();
         try {
-            const sdk = createSDK(global, true);
+            const sdk = await createSDK(global, exportNeedsSigner(options));
+            if (options.simulate) {
+                printSimulation(await sdk.simulateMigrate(options.amount), options.json);
+                return;
+            }
+            if (options.export) {
+                await writeExport(sdk, await sdk.prepareMigrate(options.amount, { from: options.from }), options);
+                return;
+            }
             const hash = await sdk.migrate(options.amount);
             if (options.json) {
                 console.log(JSON.stringify({ success: true, hash }));
                 return;
             }
             console.log(`Migration tx: ${hash}`);
-        } catch (error: any) {
-            fail(error.message, options.json);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('speed-up')
+    .description('Re-send a pending transaction with higher fees (same nonce)')
+    .requiredOption('--hash <hash>', 'Pending transaction hash')
+    .option('--bump <percent>', 'Fee increase in percent (min 10)', '15')
+    .option('--simulate', 'Simulate the replacement and print its gas cost without sending')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK(global, true);
+            if (options.simulate) {
+                printSimulation(await sdk.simulateSpeedUpTransaction(options.hash, Number(options.bump)), options.json);
+                return;
+            }
+            const hash = await sdk.speedUpTransaction(options.hash, Number(options.bump));
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, replaced: options.hash, hash }));
+                return;
+            }
+            console.log(`Replacement tx: ${hash}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('cancel-tx')
+    .description('Cancel a pending transaction by replacing it with a 0-value self transfer')
+    .requiredOption('--hash <hash>', 'Pending transaction hash')
+    .option('--bump <percent>', 'Fee increase in percent (min 10)', '15')
+    .option('--simulate', 'Simulate the replacement and print its gas cost without sending')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK(global, true);
+            if (options.simulate) {
+                printSimulation(await sdk.simulateCancelTransaction(options.hash, Number(options.bump)), options.json);
+                return;
+            }
+            const hash = await sdk.cancelTransaction(options.hash, Number(options.bump));
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, replaced: options.hash, hash }));
+                return;
+            }
+            console.log(`Cancellation tx: ${hash}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('watch')
+    .description('Stream market events as NDJSON (one JSON object per line) until interrupted')
+    .option('--market <addresses...>', 'Market address(es) to follow (buy, sell, graduated)')
+    .option('--graduation', 'Only emit graduated events for --market')
+    .option('--launches', 'Follow new token launches')
+    .option('--factory <address>', 'Factory address for --launches')
+    .option('--from-block <n>', 'Backfill from this block before streaming')
+    .option('--poll <ms>', 'Head polling interval in ms', '4000')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            if (!options.market && !options.launches) {
+                fail('Pass --market <address> and/or --launches.', true);
+            }
+            const sdk = await createSDK(global);
+            const emit = (event: object) => console.log(JSON.stringify(event));
+            const watch = {
+                fromBlock: options.fromBlock !== undefined ? BigInt(options.fromBlock) : undefined,
+                pollingIntervalMs: Number(options.poll),
+                onError: (error: Error) => console.error(JSON.stringify({ type: 'error', code: errorCode(error), error: error.message }))
+            };
+
+            const stops = (options.market ?? []).map((market: string) => options.graduation
+                ? sdk.watchGraduation(market, emit, watch)
+                : sdk.watchMarket(market, { ...watch, onBuy: emit, onSell: emit, onGraduated: emit }));
+            if (options.launches) {
+                stops.push(sdk.watchLaunches(emit, { ...watch, factory: options.factory }));
+            }
+
+            const stop = () => {
+                for (const unwatch of stops) unwatch();
+                process.exit(0);
+            };
+            process.on('SIGINT', stop);
+            process.on('SIGTERM', stop);
+        } catch (error) {
+            fail(error, true);
+        }
+    });
+
+program.command('run')
+    .description('Run a trading strategy (limit, take-profit/stop-loss, DCA, new-launch orders) until every order is done')
+    .argument('<strategy>', 'Strategy file (JSON or YAML)')
+    .option('--state <file>', 'Progress file (default: <strategy>.state.json, or <strategy>.dry-run.state.json)')
+    .option('--dry-run', 'Quote and log the trades the strategy would make without signing')
+    .option('--once', 'Evaluate every order once and exit')
+    .option('--account <address>', 'Account whose balance percent sells use in a dry run; a live run must match the signer')
+    .option('--retry-pending', 'Re-arm orders an interrupted run left pending (check on-chain first)')
+    .option('-y, --yes', 'Skip the confirmation prompt for live runs')
+    .option('--json', 'Print events as NDJSON')
+    .action(async (file, options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const strategy = await loadStrategy(file);
+            if (options.account) strategy.account = options.account;
+            const sdk = await createSDK(global, !options.dryRun);
+            const stateFile = options.state ?? defaultStrategyStateFile(file, options.dryRun);
+            const onEvent = (event: StrategyEvent) => {
+                if (options.json) console.log(JSON.stringify({ time: new Date().toISOString(), ...event }));
+                else console.log(`[${new Date().toISOString()}] ${event.order}: ${event.message}`);
+            };
+            const runner = new StrategyRunner(sdk, strategy, { stateFile, dryRun: options.dryRun, retryPending: options.retryPending, onEvent });
+            await runner.getState();
+            if (!options.dryRun && !global.paper && !options.yes && !(await confirm(`Start live strategy with ${strategy.orders.length} order(s) from ${await sdk.getAddress()}?`, options.json))) {
+                fail(new AbortedError(new Error('declined at confirmation prompt')), options.json);
+            }
+
+            const controller = new AbortController();
+            process.on('SIGINT', () => controller.abort());
+            process.on('SIGTERM', () => controller.abort());
+            if (options.once) await runner.tick(controller.signal);
+            else await runner.run(controller.signal);
+
+            const state = await runner.getState();
+            const counts = { active: 0, pending: 0, done: 0, failed: 0 };
+            for (const order of strategy.orders) counts[state.orders[order.id]?.status ?? 'active']++;
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, state: stateFile, dryRun: !!options.dryRun, ...counts }));
+                return;
+            }
+            console.log(`Stopped: ${counts.done} done, ${counts.failed} failed, ${counts.active} active. State: ${stateFile}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('paper-status')
+    .description('Paper ledger balances and realized/unrealized PnL at current quotes (implies --paper)')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK({ ...global, paper: true });
+            const pnl = await sdk.getPaperPnl();
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, ...pnl }));
+                return;
+            }
+            console.log(`Paper account: ${pnl.account}`);
+            console.log(`USDC: ${pnl.usdc} (started with ${pnl.startingUsdc})`);
+            const open = pnl.positions.filter((p) => Number(p.balance) > 0);
+            if (open.length > 0) {
+                console.table(open.map((p) => ({
+                    token: p.token,
+                    balance: p.balance,
+                    costBasis: p.costBasis,
+                    valueUsdc: p.valueUsdc ?? 'n/a',
+                    unrealizedPnl: p.unrealizedPnl ?? 'n/a',
+                    realizedPnl: p.realizedPnl
+                })));
+            }
+            console.log(`Equity: ${pnl.equity} USDC | Realized: ${pnl.realizedPnl} | Unrealized: ${pnl.unrealizedPnl} | Total PnL: ${pnl.totalPnl}`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('paper-export')
+    .description('Write the paper ledger (balances, positions, every paper trade) as JSON or a CSV of trades (implies --paper)')
+    .option('--out <file>', 'Output file (default: stdout)')
+    .option('--format <format>', 'json or csv (trades only)', 'json')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            if (!['json', 'csv'].includes(options.format)) fail(`Unknown --format "${options.format}". Use json or csv.`);
+            const sdk = await createSDK({ ...global, paper: true });
+            const ledger = await sdk.exportPaperLedger();
+            const text = options.format === 'csv'
+                ? `${toCsv(ledger.trades, ['hash', 'at', 'side', 'market', 'token', 'venue', 'usdc', 'tokens', 'feePaid', 'realizedPnl'])}\n`
+                : `${JSON.stringify(ledger, null, 2)}\n`;
+            if (options.out) await writeFile(options.out, text);
+            else process.stdout.write(text);
+        } catch (error) {
+            fail(error);
+        }
+    });
+
+program.command('paper-reset')
+    .description('Discard all paper positions and trades (implies --paper)')
+    .option('--usdc <amount>', 'Starting USDC (default: --paper-usdc, else 1000)')
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            const sdk = await createSDK({ ...global, paper: true });
+            if (!options.yes && !(await confirm('Reset the paper ledger?', options.json))) {
+                fail(new AbortedError(new Error('declined at confirmation prompt')), options.json);
+            }
+            await sdk.resetPaperLedger(options.usdc);
+            const { usdc, account } = await sdk.exportPaperLedger();
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, account, usdc }));
+                return;
+            }
+            console.log(`Paper ledger reset: ${usdc} USDC.`);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('mock-server')
+    .description('Serve an offline mock of the MoltMoon API (simulated curves, verifiable intents) until interrupted')
+    .option('--port <port>', 'Port to listen on', '8787')
+    .option('--host <host>', 'Interface to bind', '127.0.0.1')
+    .option('--seed <file>', 'JSON/YAML with tokens, rewards, migrationStatus, virtualBase, sellFeeBps, chainId')
+    .option('--json', 'Output result as JSON')
+    .action(async (options) => {
+        try {
+            const seed = options.seed ? await readConfigFile(options.seed) : {};
+            if (!seed || typeof seed !== 'object' || Array.isArray(seed)) {
+                throw new ValidationError('seed', `${options.seed} must contain an object.`);
+            }
+            const server = new MockMoltmoonServer({ ...(seed as MockServerOptions), port: Number(options.port), host: options.host });
+            const url = await server.start();
+            const tokens = server.getTokens().map(({ symbol, token, market }) => ({ symbol, token, market }));
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, url, factory: server.factory, usdc: server.usdc, tokens }));
+            } else {
+                console.log(`Mock MoltMoon API on ${url} (chain ${server.chainId}, factory ${server.factory})`);
+                for (const token of tokens) console.log(`  ${token.symbol}: market ${token.market}`);
+                console.log(`Use it with: mltl --api-url ${url} --paper ...`);
+            }
+            const stop = () => void server.stop().then(() => process.exit(0));
+            process.on('SIGINT', stop);
+            process.on('SIGTERM', stop);
+        } catch (error) {
+            fail(error, options.json);
+        }
+    });
+
+program.command('history')
+    .description('Trade history of a market as OHLCV candles (or raw trades), from on-chain logs')
+    .requiredOption('--market <address>', 'Market address')
+    .option('--interval <interval>', 'Candle interval: 1m, 5m, 15m, 1h, 4h, 1d or seconds', '5m')
+    .option('--format <format>', 'Output format: json or csv', 'json')
+    .option('--trades', 'Output individual trades instead of candles')
+    .option('--from-block <n>', 'First block (default: ~24h before --to-block)')
+    .option('--to-block <n>', 'Last block (default: latest)')
+    .action(async (options) => {
+        const global = program.opts<CliOptions>();
+        const asJson = options.format !== 'csv';
+        try {
+            if (options.format !== 'json' && options.format !== 'csv') {
+                fail(`Unknown --format "${options.format}". Use json or csv.`, true);
+            }
+            const interval = parseInterval(options.interval);
+            const sdk = await createSDK(global);
+            const trades = await sdk.getTrades(options.market, {
+                fromBlock: options.fromBlock !== undefined ? BigInt(options.fromBlock) : undefined,
+                toBlock: options.toBlock !== undefined ? BigInt(options.toBlock) : undefined
+            });
+            const rows: object[] = options.trades ? trades : buildCandles(trades, interval);
+            if (asJson) {
+                console.log(JSON.stringify(options.trades
+                    ? { success: true, market: options.market, count: rows.length, trades: rows }
+                    : { success: true, market: options.market, interval, count: rows.length, candles: rows }));
+                return;
+            }
+            const columns = options.trades
+                ? ['timestamp', 'side', 'trader', 'price', 'usdc', 'tokens', 'blockNumber', 'transactionHash', 'logIndex']
+                : ['time', 'open', 'high', 'low', 'close', 'volumeUsdc', 'volumeTokens', 'trades', 'buys', 'sells'];
+            console.log(toCsv(rows, columns));
+        } catch (error) {
+            fail(error, asJson);
+        }
+    });
+
+program.command('broadcast')
+    .description('Send pre-signed raw transactions from a file, in order')
+    .argument('<file>', 'JSON: array of signed raw txs, { signedTransactions: [...] }, or an eip1559 export with "signed" fields')
+    .option('--simulate', 'Simulate the transactions in order and print their gas cost without sending')
+    .option('--json', 'Output result as JSON')
+    .action(async (file, options) => {
+        const global = program.opts<CliOptions>();
+        try {
+            let json: unknown;
+            try {
+                json = JSON.parse(await readFile(file, 'utf8'));
+            } catch (error: any) {
+                fail(`Could not read ${file}: ${error.message}`, options.json);
+            }
+            const sdk = await createSDK(global);
+            if (options.simulate) {
+                printSimulation(await sdk.simulateSignedTransactions(parseSignedTransactions(json)), options.json);
+                return;
+            }
+            const results = await sdk.broadcastSignedTransactions(parseSignedTransactions(json));
+            if (options.json) {
+                console.log(JSON.stringify({ success: true, transactions: results }));
+                return;
+            }
+            for (const result of results) {
+                console.log(`Tx ${result.hash} (nonce ${result.nonce}) mined in block ${result.blockNumber}`);
+            }
+        } catch (error) {
+            fail(error, options.json);
         }
     });
 
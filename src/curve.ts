@@ -0,0 +1,148 @@
+import { ValidationError } from './errors';
+import type { MarketDetails } from './types';
+
+// Offline model of BondingCurveMarketV2: a constant-product curve between the
+// virtual + real USDC reserve and the tokens still on the curve. Buys are
+// fee-free; sells pay sellFeeBps out of the gross USDC. All amounts are raw
+// units (USDC 6 decimals, tokens 18 decimals).
+
+const BPS = 10_000n;
+const TOKEN_UNIT = 10n ** 18n;
+
+/** Prices carry 24 decimals (USDC's 6 + 18 extra) so sub-cent token prices keep precision. */
+export const PRICE_DECIMALS = 24;
+const PRICE_SCALE = TOKEN_UNIT * 10n ** 18n;
+
+export const TOTAL_SUPPLY = 1_000_000_000n * TOKEN_UNIT;
+export const CURVE_TOKENS_TOTAL = (TOTAL_SUPPLY * 80n) / 100n;
+export const GRADUATION_BPS = 9_500n; // graduates once 95% of curve tokens are sold
+
+export interface CurveState {
+    baseReserve: bigint;        // virtualBase + baseReserveReal
+    tokenReserve: bigint;       // curveTokensRemaining
+    sellFeeBps: bigint;
+    curveTokensTotal: bigint;
+    totalSupply: bigint;
+}
+
+export interface CurveQuote {
+    amountIn: bigint;
+    amountOut: bigint;
+    feePaid: bigint;
+    executionPrice: bigint;     // USDC per whole token, PRICE_DECIMALS decimals
+    priceImpactBps: bigint;     // curve slippage vs spot, excluding the sell fee, always >= 0
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b;
+}
+
+function impactBps(executionPrice: bigint, spot: bigint): bigint {
+    if (spot === 0n) return 0n;
+    const diff = executionPrice > spot ? executionPrice - spot : spot - executionPrice;
+    return (diff * BPS) / spot;
+}
+
+/** USDC per whole token for a fill of `usdc` (raw) against `tokens` (raw), PRICE_DECIMALS decimals. */
+export function priceOf(usdc: bigint, tokens: bigint): bigint {
+    return tokens === 0n ? 0n : (usdc * PRICE_SCALE) / tokens;
+}
+
+/**
+ * Price impact of an externally supplied quote (e.g. from the API) against the
+ * snapshot's spot price. `usdc` is the gross USDC side, before any sell fee.
+ */
+export function quotePriceImpactBps(state: CurveState, usdc: bigint, tokens: bigint): bigint {
+    return impactBps(priceOf(usdc, tokens), spotPrice(state));
+}
+
+export function curveStateFromMarket(
+    details: Pick<MarketDetails, 'virtualBase' | 'baseReserveReal' | 'curveTokensRemaining' | 'sellFeeBps'>,
+    overrides: { curveTokensTotal?: bigint; totalSupply?: bigint } = {}
+): CurveState {
+    return {
+        baseReserve: BigInt(details.virtualBase) + BigInt(details.baseReserveReal),
+        tokenReserve: BigInt(details.curveTokensRemaining),
+        sellFeeBps: BigInt(details.sellFeeBps),
+        curveTokensTotal: overrides.curveTokensTotal ?? CURVE_TOKENS_TOTAL,
+        totalSupply: overrides.totalSupply ?? TOTAL_SUPPLY
+    };
+}
+
+/** Marginal price in USDC per whole token, PRICE_DECIMALS decimals. */
+export function spotPrice(state: CurveState): bigint {
+    if (state.tokenReserve === 0n) return 0n;
+    return (state.baseReserve * PRICE_SCALE) / state.tokenReserve;
+}
+
+/** Fully diluted market cap in USDC raw units: spot price x total supply. */
+export function marketCap(state: CurveState): bigint {
+    if (state.tokenReserve === 0n) return 0n;
+    return (state.baseReserve * state.totalSupply) / state.tokenReserve;
+}
+
+export function quoteBuy(state: CurveState, usdcIn: bigint): CurveQuote {
+    const amountOut = (state.tokenReserve * usdcIn) / (state.baseReserve + usdcIn);
+    const executionPrice = priceOf(usdcIn, amountOut);
+    return {
+        amountIn: usdcIn,
+        amountOut,
+        feePaid: 0n,
+        executionPrice,
+        priceImpactBps: impactBps(executionPrice, spotPrice(state))
+    };
+}
+
+/** USDC needed to receive exactly `tokensOut` (rounded up, as the contract would). */
+export function quoteBuyExactOut(state: CurveState, tokensOut: bigint): CurveQuote {
+    if (tokensOut >= state.tokenReserve) {
+        throw new ValidationError('tokensOut', `Cannot buy ${tokensOut} tokens; only ${state.tokenReserve} remain on the curve.`);
+    }
+    const usdcIn = ceilDiv(state.baseReserve * tokensOut, state.tokenReserve - tokensOut);
+    const executionPrice = priceOf(usdcIn, tokensOut);
+    return {
+        amountIn: usdcIn,
+        amountOut: tokensOut,
+        feePaid: 0n,
+        executionPrice,
+        priceImpactBps: impactBps(executionPrice, spotPrice(state))
+    };
+}
+
+export function quoteSell(state: CurveState, tokensIn: bigint): CurveQuote {
+    const gross = (state.baseReserve * tokensIn) / (state.tokenReserve + tokensIn);
+    const feePaid = (gross * state.sellFeeBps) / BPS;
+    const amountOut = gross - feePaid;
+    const executionPrice = priceOf(amountOut, tokensIn);
+    return {
+        amountIn: tokensIn,
+        amountOut,
+        feePaid,
+        executionPrice,
+        priceImpactBps: impactBps(priceOf(gross, tokensIn), spotPrice(state))
+    };
+}
+
+/** Curve state after a trade settles, for simulating sequences of orders. */
+export function applyTrade(state: CurveState, side: 'buy' | 'sell', quote: CurveQuote): CurveState {
+    if (side === 'buy') {
+        return { ...state, baseReserve: state.baseReserve + quote.amountIn, tokenReserve: state.tokenReserve - quote.amountOut };
+    }
+    return {
+        ...state,
+        baseReserve: state.baseReserve - (quote.amountOut + quote.feePaid),
+        tokenReserve: state.tokenReserve + quote.amountIn
+    };
+}
+
+/** Tokens that must still be bought before the market graduates. */
+export function tokensToGraduation(state: CurveState): bigint {
+    const floor = state.curveTokensTotal - (state.curveTokensTotal * GRADUATION_BPS) / BPS;
+    return state.tokenReserve > floor ? state.tokenReserve - floor : 0n;
+}
+
+/** USDC (raw) a single buy would need to push the market to graduation. */
+export function usdcToGraduation(state: CurveState): bigint {
+    const tokens = tokensToGraduation(state);
+    return tokens === 0n ? 0n : quoteBuyExactOut(state, tokens).amountIn;
+}
@@ -0,0 +1,229 @@
+import { BaseError as ViemBaseError, decodeErrorResult } from 'viem';
+
+/**
+ * Base class for every error the SDK throws on purpose.
+ * `code` is stable and safe to branch on; messages may change.
+ */
+export class MoltmoonError extends Error {
+    readonly code: string;
+
+    constructor(code: string, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+        this.code = code;
+    }
+}
+
+/** Non-2xx response from the MoltMoon API. */
+export class ApiError extends MoltmoonError {
+    readonly status: number;
+    readonly path: string;
+    readonly body: unknown;
+
+    constructor(status: number, path: string, message: string, body?: unknown) {
+        super('API_ERROR', `API Error [${status}]: ${message}`);
+        this.status = status;
+        this.path = path;
+        this.body = body;
+    }
+}
+
+/** The API could not be reached (DNS, connection reset, TLS...). */
+export class NetworkError extends MoltmoonError {
+    readonly path: string;
+
+    constructor(path: string, message: string, options: { cause?: unknown; code?: string } = {}) {
+        super(options.code ?? 'NETWORK_ERROR', message, { cause: options.cause });
+        this.path = path;
+    }
+}
+
+/** A single API attempt exceeded its timeout. */
+export class RequestTimeoutError extends NetworkError {
+    readonly timeoutMs: number;
+
+    constructor(path: string, timeoutMs: number) {
+        super(path, `Request to ${path} timed out after ${timeoutMs}ms`, { code: 'TIMEOUT' });
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/** The caller's AbortSignal fired. */
+export class AbortedError extends MoltmoonError {
+    constructor(reason?: unknown) {
+        super('ABORTED', reason instanceof Error ? `Aborted: ${reason.message}` : 'Operation aborted', { cause: reason });
+    }
+}
+
+/** Caller input rejected before anything is sent. */
+export class ValidationError extends MoltmoonError {
+    readonly field: string;
+
+    constructor(field: string, message: string, code = 'VALIDATION_ERROR') {
+        super(code, message);
+        this.field = field;
+    }
+}
+
+/** Launch image could not be read, parsed or does not meet the upload rules. */
+export class ImageError extends ValidationError {
+    constructor(message: string) {
+        super('imageFile', message, 'IMAGE_ERROR');
+    }
+}
+
+/** A write method was called on an SDK instance without a signer. */
+export class SignerRequiredError extends MoltmoonError {
+    constructor(message = 'Signer required to execute transactions. Initialize SDK with privateKey, account, walletClient, provider or remoteSigner.') {
+        super('SIGNER_REQUIRED', message);
+    }
+}
+
+/**
+ * Thrown when a TransactionIntent returned by the API does not match what the
+ * caller asked for. Nothing has been signed when this is raised.
+ */
+export class IntentVerificationError extends MoltmoonError {
+    readonly field: string;
+    readonly expected: string;
+    readonly actual: string;
+    readonly intent: { to: string; data: string; chainId: number; description?: string };
+
+    constructor(field: string, expected: string, actual: string, intent: IntentVerificationError['intent']) {
+        super('INTENT_MISMATCH', `Intent verification failed on ${field}: expected ${expected}, got ${actual}${intent.description ? ` (${intent.description})` : ''}`);
+        this.field = field;
+        this.expected = expected;
+        this.actual = actual;
+        this.intent = intent;
+    }
+}
+
+/** Quoted price impact exceeds the configured maximum. Nothing was sent. */
+export class PriceImpactError extends MoltmoonError {
+    readonly priceImpactBps: number;
+    readonly maxPriceImpactBps: number;
+
+    constructor(priceImpactBps: number, maxPriceImpactBps: number) {
+        super('PRICE_IMPACT_TOO_HIGH', `Price impact ${priceImpactBps} bps exceeds maximum ${maxPriceImpactBps} bps`);
+        this.priceImpactBps = priceImpactBps;
+        this.maxPriceImpactBps = maxPriceImpactBps;
+    }
+}
+
+/** A write the paper ledger does not model was called on an SDK in paper mode. Nothing was sent. */
+export class PaperModeError extends MoltmoonError {
+    constructor(action: string) {
+        super('PAPER_MODE_UNSUPPORTED', `${action} is not available in paper mode; nothing was sent.`);
+    }
+}
+
+/**
+ * The paper ledger refused a fill: `PAPER_INSUFFICIENT_BALANCE` (not enough virtual USDC or
+ * tokens) or `PAPER_SLIPPAGE_EXCEEDED` (the quote is below the minimum out). Nothing was sent.
+ */
+export class PaperTradeError extends MoltmoonError {
+    constructor(code: 'PAPER_INSUFFICIENT_BALANCE' | 'PAPER_SLIPPAGE_EXCEEDED', message: string) {
+        super(code, message);
+    }
+}
+
+/** A token's metadata URI could not be resolved, decoded or does not describe a token. */
+export class MetadataError extends MoltmoonError {
+    readonly uri: string;
+
+    constructor(uri: string, message: string, options?: { cause?: unknown }) {
+        super('METADATA_ERROR', message, options);
+        this.uri = uri;
+    }
+}
+
+/** Sending or confirming a transaction failed. `hash` is set once the tx was broadcast. */
+export class TransactionError extends MoltmoonError {
+    readonly hash?: `0x${string}`;
+
+    constructor(message: string, options: { hash?: `0x${string}`; cause?: unknown; code?: string } = {}) {
+        super(options.code ?? 'TX_FAILED', message, { cause: options.cause });
+        this.hash = options.hash;
+    }
+}
+
+/** The transaction (or its pre-flight estimate) reverted. `reason` is the decoded revert string when available. */
+export class TransactionRevertedError extends TransactionError {
+    readonly reason?: string;
+
+    constructor(reason: string | undefined, options: { hash?: `0x${string}`; cause?: unknown; code?: string } = {}) {
+        const where = options.hash ? `Transaction ${options.hash} reverted` : 'Transaction reverted';
+        super(reason ? `${where}: ${reason}` : where, { code: 'TX_REVERTED', ...options });
+        this.reason = reason;
+    }
+}
+
+export class InsufficientBalanceError extends TransactionRevertedError {
+    constructor(reason: string | undefined, options: { hash?: `0x${string}`; cause?: unknown } = {}) {
+        super(reason, { ...options, code: 'INSUFFICIENT_BALANCE' });
+    }
+}
+
+export class InsufficientAllowanceError extends TransactionRevertedError {
+    constructor(reason: string | undefined, options: { hash?: `0x${string}`; cause?: unknown } = {}) {
+        super(reason, { ...options, code: 'INSUFFICIENT_ALLOWANCE' });
+    }
+}
+
+export class SlippageError extends TransactionRevertedError {
+    constructor(reason: string | undefined, options: { hash?: `0x${string}`; cause?: unknown } = {}) {
+        super(reason, { ...options, code: 'SLIPPAGE_EXCEEDED' });
+    }
+}
+
+function findRevertData(error: ViemBaseError): `0x${string}` | undefined {
+    const withData = error.walk((e: any) => typeof e?.data === 'string' && e.data.startsWith('0x')) as any;
+    return withData?.data;
+}
+
+/** Best-effort revert string from a viem error chain. */
+export function extractRevertReason(error: unknown): string | undefined {
+    if (!(error instanceof ViemBaseError)) return undefined;
+
+    const reverted = error.walk((e: any) => typeof e?.reason === 'string') as any;
+    if (reverted?.reason) return reverted.reason;
+
+    const data = findRevertData(error);
+    if (data && data.length > 2) {
+        try {
+            const decoded = decodeErrorResult({ abi: [], data });
+            if (decoded.args?.length) return String(decoded.args[0]);
+            return decoded.errorName;
+        } catch {
+            // Custom error we have no ABI for.
+        }
+    }
+
+    const match = /reverted with (?:the following )?reason:\s*(.+)/i.exec(`${error.shortMessage}\n${error.details ?? ''}`);
+    if (match) return match[1].trim().replace(/\.$/, '');
+    if (/insufficient funds/i.test(error.details ?? '')) return 'insufficient funds for gas * price + value';
+    return undefined;
+}
+
+/**
+ * Map a raw send/confirm failure onto the SDK error hierarchy.
+ * Already-typed SDK errors are returned unchanged.
+ */
+export function toTransactionError(error: unknown, hash?: `0x${string}`): MoltmoonError {
+    if (error instanceof MoltmoonError) return error;
+
+    const reason = extractRevertReason(error);
+    const isRevert = reason !== undefined
+        || (error instanceof ViemBaseError && /revert/i.test(`${error.shortMessage} ${error.details ?? ''}`));
+
+    if (isRevert) {
+        const text = reason ?? '';
+        if (/allowance/i.test(text)) return new InsufficientAllowanceError(reason, { hash, cause: error });
+        if (/exceeds balance|insufficient (balance|funds)/i.test(text)) return new InsufficientBalanceError(reason, { hash, cause: error });
+        if (/slippage|min(imum)?\s*out|too little received/i.test(text)) return new SlippageError(reason, { hash, cause: error });
+        return new TransactionRevertedError(reason, { hash, cause: error });
+    }
+
+    const message = error instanceof ViemBaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+    return new TransactionError(message, { hash, cause: error });
+}
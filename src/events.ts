@@ -0,0 +1,196 @@
+import { formatUnits, type Abi, type Log, type PublicClient } from 'viem';
+import { factoryAbi, marketAbi } from './abis';
+import type { LaunchEvent, MarketEvent } from './types';
+
+// Log reading for market/factory events: chunked eth_getLogs ranges, decoding into the
+// SDK's event types, and a block-cursor watcher that backfills whatever it missed.
+
+const DEFAULT_CHUNK = 2_000n;
+const DEFAULT_POLL_MS = 4_000;
+
+export type DecodedLog = Log<bigint, number, false> & { eventName: string; args: Record<string, any> };
+
+export interface LogRange {
+    address: `0x${string}` | `0x${string}`[];
+    abi: Abi;
+    fromBlock: bigint;
+    toBlock: bigint;
+    chunkSize?: bigint;
+}
+
+function isRangeError(error: any): boolean {
+    return /range|limit|too many|exceed|block span|query returned more/i.test(`${error?.shortMessage ?? ''} ${error?.details ?? ''} ${error?.message ?? ''}`);
+}
+
+/**
+ * eth_getLogs over [fromBlock, toBlock] in chunks. A chunk the RPC rejects as too large
+ * is halved and retried. `onChunk` sees each chunk's decoded logs in block order.
+ */
+export async function getLogsChunked(
+    client: PublicClient,
+    range: LogRange,
+    onChunk: (logs: DecodedLog[], toBlock: bigint) => void | Promise<void>
+): Promise<void> {
+    const events = range.abi.filter((item) => item.type === 'event');
+    let chunk = range.chunkSize ?? DEFAULT_CHUNK;
+    let from = range.fromBlock;
+    while (from <= range.toBlock) {
+        const to = from + chunk - 1n < range.toBlock ? from + chunk - 1n : range.toBlock;
+        let logs: DecodedLog[];
+        try {
+            logs = await client.getLogs({ address: range.address, events: events as any, fromBlock: from, toBlock: to, strict: true }) as any;
+        } catch (error) {
+            const span = to - from + 1n;
+            if (span > 1n && isRangeError(error)) {
+                chunk = span / 2n;
+                continue;
+            }
+            throw error;
+        }
+        await onChunk(logs, to);
+        from = to + 1n;
+    }
+}
+
+function meta(log: DecodedLog) {
+    return {
+        blockNumber: log.blockNumber.toString(),
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex
+    };
+}
+
+/** Decode a market log; undefined for events the SDK does not model. */
+export function toMarketEvent(log: DecodedLog): MarketEvent | undefined {
+    const { args } = log;
+    const market = log.address;
+    switch (log.eventName) {
+        case 'Buy':
+            return {
+                type: 'buy',
+                market,
+                buyer: args.buyer,
+                usdcIn: formatUnits(args.usdcIn, 6),
+                usdcInRaw: args.usdcIn.toString(),
+                tokensOut: formatUnits(args.tokensOut, 18),
+                tokensOutRaw: args.tokensOut.toString(),
+                ...meta(log)
+            };
+        case 'Sell':
+            return {
+                type: 'sell',
+                market,
+                seller: args.seller,
+                tokensIn: formatUnits(args.tokensIn, 18),
+                tokensInRaw: args.tokensIn.toString(),
+                usdcOut: formatUnits(args.usdcOut, 6),
+                usdcOutRaw: args.usdcOut.toString(),
+                fee: formatUnits(args.fee, 6),
+                feeRaw: args.fee.toString(),
+                ...meta(log)
+            };
+        case 'Graduated':
+            return {
+                type: 'graduated',
+                market,
+                aerodromePool: args.aerodromePool,
+                baseAmount: formatUnits(args.baseAmount, 6),
+                tokenAmount: formatUnits(args.tokenAmount, 18),
+                ...meta(log)
+            };
+        default:
+            return undefined;
+    }
+}
+
+export function toLaunchEvent(log: DecodedLog): LaunchEvent | undefined {
+    if (log.eventName !== 'TokenCreated') return undefined;
+    const { args } = log;
+    return {
+        type: 'launch',
+        token: args.token,
+        market: args.market,
+        creator: args.creator,
+        rewardsPool: args.rewardsPool,
+        name: args.name,
+        symbol: args.symbol,
+        uri: args.uri,
+        seedAmount: formatUnits(args.seedAmount, 6),
+        ...meta(log)
+    };
+}
+
+export const marketEventsAbi = marketAbi.filter((item) => item.type === 'event') as unknown as Abi;
+export const launchEventsAbi = factoryAbi.filter((item) => item.type === 'event') as unknown as Abi;
+
+/**
+ * Follow new logs from `address`. A cursor only moves past a block range once its logs were
+ * delivered, so after RPC failures (or a dropped websocket) the next successful poll replays
+ * everything missed. Handler exceptions go to `onError` and never stall the cursor.
+ */
+export function watchLogs(
+    client: PublicClient,
+    options: {
+        address: `0x${string}` | `0x${string}`[];
+        abi: Abi;
+        fromBlock?: bigint;
+        pollingIntervalMs?: number;
+        chunkSize?: bigint;
+        onLog: (log: DecodedLog) => void;
+        onError?: (error: Error) => void;
+    }
+): () => void {
+    let cursor = options.fromBlock;
+    let head: bigint | undefined;
+    let running = false;
+    let stopped = false;
+
+    const report = (error: unknown) => options.onError?.(error instanceof Error ? error : new Error(String(error)));
+
+    const catchUp = async () => {
+        if (running || stopped) return;
+        running = true;
+        try {
+            while (!stopped && head !== undefined) {
+                cursor ??= head;
+                if (cursor > head) break;
+                await getLogsChunked(client, {
+                    address: options.address,
+                    abi: options.abi,
+                    fromBlock: cursor,
+                    toBlock: head,
+                    chunkSize: options.chunkSize
+                }, (logs, toBlock) => {
+                    for (const log of logs) {
+                        if (stopped) return;
+                        try {
+                            options.onLog(log);
+                        } catch (error) {
+                            report(error);
+                        }
+                    }
+                    cursor = toBlock + 1n;
+                });
+            }
+        } catch (error) {
+            report(error);
+        } finally {
+            running = false;
+        }
+    };
+
+    const unwatch = client.watchBlockNumber({
+        emitOnBegin: true,
+        pollingInterval: options.pollingIntervalMs ?? DEFAULT_POLL_MS,
+        onBlockNumber: (blockNumber) => {
+            head = blockNumber;
+            void catchUp();
+        },
+        onError: report
+    });
+
+    return () => {
+        stopped = true;
+        unwatch();
+    };
+}
@@ -0,0 +1,117 @@
+import { isHex, serializeTransaction, type TransactionSerialized } from 'viem';
+import { ValidationError } from './errors';
+import type { SafeTransactionBatch, TransactionIntent, UnsignedTransactionBundle } from './types';
+
+// File formats for handing intent bundles to other signers, and reading back what they signed.
+
+const TX_BUILDER_VERSION = '1.16.5';
+
+/** Bundle for the Safe{Wallet} Transaction Builder app ("Load" a JSON batch). */
+export function toSafeTransactionBatch(
+    intents: TransactionIntent[],
+    options: { chainId: number; safeAddress: string; name?: string; description?: string; createdAt?: number }
+): SafeTransactionBatch {
+    return {
+        version: '1.0',
+        chainId: String(options.chainId),
+        createdAt: options.createdAt ?? Date.now(),
+        meta: {
+            name: options.name ?? 'MoltMoon batch',
+            description: options.description ?? intents.map((intent) => intent.description).filter(Boolean).join('; '),
+            txBuilderVersion: TX_BUILDER_VERSION,
+            createdFromSafeAddress: options.safeAddress,
+            createdFromOwnerAddress: ''
+        },
+        transactions: intents.map((intent) => ({
+            to: intent.to,
+            value: BigInt(intent.value || '0').toString(),
+            data: intent.data,
+            contractMethod: null,
+            contractInputsValues: null
+        }))
+    };
+}
+
+/** Unsigned type-2 transactions with sequential nonces starting at `nonce`. */
+export function toUnsignedTransactions(
+    intents: TransactionIntent[],
+    options: {
+        chainId: number;
+        from: `0x${string}`;
+        nonce: number;
+        gas: bigint[];
+        maxFeePerGas: bigint;
+        maxPriorityFeePerGas: bigint;
+    }
+): UnsignedTransactionBundle {
+    const { chainId, maxFeePerGas, maxPriorityFeePerGas } = options;
+    return {
+        format: 'eip1559',
+        chainId,
+        from: options.from,
+        transactions: intents.map((intent, i) => {
+            const nonce = options.nonce + i;
+            const value = BigInt(intent.value || '0');
+            const gas = options.gas[i];
+            return {
+                description: intent.description,
+                to: intent.to,
+                value: value.toString(),
+                data: intent.data,
+                nonce,
+                gas: gas.toString(),
+                maxFeePerGas: maxFeePerGas.toString(),
+                maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+                serialized: serializeTransaction({
+                    type: 'eip1559',
+                    chainId,
+                    nonce,
+                    to: intent.to,
+                    data: intent.data,
+                    value,
+                    gas,
+                    maxFeePerGas,
+                    maxPriorityFeePerGas
+                })
+            };
+        })
+    };
+}
+
+/**
+ * Signed raw transactions from a broadcast file. Accepts a JSON array of hex strings,
+ * `{ signedTransactions: [...] }`, or an eip1559 export whose entries carry a `signed` field.
+ */
+export function parseSignedTransactions(json: unknown): TransactionSerialized[] {
+    const list: unknown[] | undefined = Array.isArray(json)
+        ? json
+        : hasArray(json, 'signedTransactions')
+            ? json.signedTransactions
+            : hasArray(json, 'transactions')
+                ? json.transactions.map((tx) => hasField(tx, 'signed') ? tx.signed : undefined)
+                : undefined;
+    if (!list || list.length === 0) {
+        throw new ValidationError('signedTransactions', 'No signed transactions found. Expected an array of raw hex transactions.');
+    }
+    return list.map((raw, i) => {
+        if (typeof raw !== 'string' || !isSerializedTransaction(raw)) {
+            throw new ValidationError('signedTransactions', `Entry ${i} is not a signed raw transaction.`);
+        }
+        return raw;
+    });
+}
+
+function hasField<K extends string>(value: unknown, key: K): value is Record<K, unknown> {
+    return typeof value === 'object' && value !== null && key in value;
+}
+
+function hasArray<K extends string>(value: unknown, key: K): value is Record<K, unknown[]> {
+    return hasField(value, key) && Array.isArray(value[key]);
+}
+
+/** Hex starting with an EIP-2718 type byte (1-4) or, for legacy transactions, an RLP list prefix. */
+function isSerializedTransaction(raw: string): raw is TransactionSerialized {
+    if (!isHex(raw) || raw.length < 4) return false;
+    const type = parseInt(raw.slice(2, 4), 16);
+    return (type >= 1 && type <= 4) || type >= 0xc0;
+}
@@ -0,0 +1,98 @@
+import { formatUnits } from 'viem';
+import { PRICE_DECIMALS, priceOf } from './curve';
+import { ValidationError } from './errors';
+import type { BuyEvent, Candle, SellEvent, Trade } from './types';
+
+// Trade history helpers. Pure functions so recorded logs can be replayed offline:
+// decode logs with toMarketEvent, attach block timestamps with toTrade, then bucket.
+
+const INTERVAL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400, w: 604_800 };
+
+/** '30s', '5m', '1h', '4h', '1d', '1w' or a number of seconds. */
+export function parseInterval(value: string | number): number {
+    const match = /^(\d+)([smhdw]?)$/.exec(String(value).trim());
+    const seconds = match ? Number(match[1]) * INTERVAL_UNITS[match[2] || 's'] : NaN;
+    if (!Number.isSafeInteger(seconds) || seconds <= 0) {
+        throw new ValidationError('interval', `Invalid interval: ${value}. Use e.g. 1m, 5m, 1h, 1d.`);
+    }
+    return seconds;
+}
+
+export function toTrade(event: BuyEvent | SellEvent, timestamp: number): Trade {
+    const usdcRaw = event.type === 'buy' ? BigInt(event.usdcInRaw) : BigInt(event.usdcOutRaw) + BigInt(event.feeRaw);
+    const tokensRaw = BigInt(event.type === 'buy' ? event.tokensOutRaw : event.tokensInRaw);
+    return {
+        side: event.type,
+        market: event.market,
+        trader: event.type === 'buy' ? event.buyer : event.seller,
+        usdc: formatUnits(usdcRaw, 6),
+        usdcRaw: usdcRaw.toString(),
+        tokens: formatUnits(tokensRaw, 18),
+        tokensRaw: tokensRaw.toString(),
+        price: formatUnits(priceOf(usdcRaw, tokensRaw), PRICE_DECIMALS),
+        timestamp,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex
+    };
+}
+
+interface Bucket {
+    time: number;
+    open: bigint;
+    high: bigint;
+    low: bigint;
+    close: bigint;
+    usdc: bigint;
+    tokens: bigint;
+    buys: number;
+    sells: number;
+}
+
+/**
+ * OHLCV candles at `intervalSeconds`, aligned to the unix epoch. Prices are gross execution
+ * prices per trade. Intervals with no trades are omitted.
+ */
+export function buildCandles(trades: Trade[], intervalSeconds: number): Candle[] {
+    if (!Number.isSafeInteger(intervalSeconds) || intervalSeconds <= 0) {
+        throw new ValidationError('interval', `Interval must be a positive number of seconds. Got ${intervalSeconds}.`);
+    }
+    const ordered = [...trades].sort((a, b) =>
+        a.timestamp - b.timestamp
+        || Number(BigInt(a.blockNumber) - BigInt(b.blockNumber))
+        || a.logIndex - b.logIndex);
+
+    const buckets: Bucket[] = [];
+    for (const trade of ordered) {
+        const time = trade.timestamp - (trade.timestamp % intervalSeconds);
+        const tokens = BigInt(trade.tokensRaw);
+        if (tokens === 0n) continue;
+        const usdc = BigInt(trade.usdcRaw);
+        const price = priceOf(usdc, tokens);
+        let bucket = buckets[buckets.length - 1];
+        if (!bucket || bucket.time !== time) {
+            bucket = { time, open: price, high: price, low: price, close: price, usdc: 0n, tokens: 0n, buys: 0, sells: 0 };
+            buckets.push(bucket);
+        }
+        if (price > bucket.high) bucket.high = price;
+        if (price < bucket.low) bucket.low = price;
+        bucket.close = price;
+        bucket.usdc += usdc;
+        bucket.tokens += tokens;
+        if (trade.side === 'buy') bucket.buys++;
+        else bucket.sells++;
+    }
+
+    return buckets.map((bucket) => ({
+        time: bucket.time,
+        open: formatUnits(bucket.open, PRICE_DECIMALS),
+        high: formatUnits(bucket.high, PRICE_DECIMALS),
+        low: formatUnits(bucket.low, PRICE_DECIMALS),
+        close: formatUnits(bucket.close, PRICE_DECIMALS),
+        volumeUsdc: formatUnits(bucket.usdc, 6),
+        volumeTokens: formatUnits(bucket.tokens, 18),
+        trades: bucket.buys + bucket.sells,
+        buys: bucket.buys,
+        sells: bucket.sells
+    }));
+}
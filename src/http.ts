@@ -0,0 +1,207 @@
+import fetch from 'isomorphic-fetch';
+import { AbortedError, ApiError, NetworkError, RequestTimeoutError } from './errors';
+import type { RequestEvent, RequestOptions, ResponseEvent, RetryConfig } from './types';
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface HttpClientConfig {
+    baseUrl: string;
+    timeoutMs?: number;
+    retry?: RetryConfig;
+    onRequest?: (event: RequestEvent) => void;
+    onResponse?: (event: ResponseEvent) => void;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new AbortedError(signal.reason));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortedError(signal?.reason));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new AbortedError(signal.reason);
+}
+
+/** Seconds or HTTP-date, per RFC 9110. Returns undefined when absent or unparseable. */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array> {
+    return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+/** The response body as bytes; refuses a declared or streamed body over `maxBytes` without reading the rest. */
+async function readBytes(res: Response, path: string, maxBytes: number): Promise<Buffer> {
+    const tooLarge = () => new NetworkError(path, `Response from ${path} exceeds ${maxBytes} bytes.`, { code: 'RESPONSE_TOO_LARGE' });
+    if (Number(res.headers.get('content-length')) > maxBytes) throw tooLarge();
+
+    const body: unknown = res.body;
+    if (!isAsyncIterable(body)) {
+        const bytes = Buffer.from(await res.arrayBuffer());
+        if (bytes.length > maxBytes) throw tooLarge();
+        return bytes;
+    }
+    const chunks: Buffer[] = [];
+    let total = 0;
+    for await (const chunk of body) {
+        total += chunk.length;
+        // Leaving the loop closes the stream.
+        if (total > maxBytes) throw tooLarge();
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+interface Attempt<T> {
+    res: Response;
+    data?: T;
+    apiError?: ApiError; // a non-2xx response, body already read
+}
+
+/**
+ * Thin fetch wrapper for the MoltMoon API: per-attempt timeout, caller
+ * cancellation, and full-jitter exponential backoff for GET requests.
+ * Non-GET requests build intents server-side and are never retried.
+ */
+export class HttpClient {
+    private readonly baseUrl: string;
+    private readonly timeoutMs: number;
+    private readonly retries: number;
+    private readonly minDelayMs: number;
+    private readonly maxDelayMs: number;
+    private readonly onRequest?: (event: RequestEvent) => void;
+    private readonly onResponse?: (event: ResponseEvent) => void;
+
+    constructor(config: HttpClientConfig) {
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.timeoutMs = config.timeoutMs ?? 30_000;
+        this.retries = config.retry?.retries ?? 3;
+        this.minDelayMs = config.retry?.minDelayMs ?? 250;
+        this.maxDelayMs = config.retry?.maxDelayMs ?? 10_000;
+        this.onRequest = config.onRequest;
+        this.onResponse = config.onResponse;
+    }
+
+    private backoff(attempt: number): number {
+        const ceiling = Math.min(this.maxDelayMs, this.minDelayMs * 2 ** (attempt - 1));
+        return Math.floor(Math.random() * ceiling);
+    }
+
+    /**
+     * One request, body included: the timeout and the caller's signal stay armed until the body
+     * has been read, so a server that stalls mid-body cannot hang the request.
+     */
+    private async attempt<T>(url: string, path: string, init: RequestInit, options: RequestOptions, maxBytes?: number): Promise<Attempt<T>> {
+        const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            const res = await fetch(url, { ...init, signal: controller.signal });
+            if (!res.ok) return { res, apiError: await this.toApiError(res, path) };
+            if (maxBytes !== undefined) return { res, data: await readBytes(res, path, maxBytes) as T };
+            const contentType = res.headers.get("content-type");
+            if (contentType && contentType.includes("application/json")) {
+                return { res, data: await res.json() as T };
+            }
+            return { res, data: await res.text() as T };
+        } catch (error) {
+            if (options.signal?.aborted) throw new AbortedError(options.signal.reason);
+            if (timedOut) throw new RequestTimeoutError(path, timeoutMs);
+            if (error instanceof NetworkError) throw error;
+            throw new NetworkError(path, `Request to ${path} failed: ${(error as Error).message}`, { cause: error });
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    private async toApiError(res: Response, path: string): Promise<ApiError> {
+        const contentType = res.headers.get("content-type");
+        let errorMsg = res.statusText;
+        let body: unknown;
+        if (contentType && contentType.includes("application/json")) {
+            const data: any = await res.json().catch(() => undefined);
+            body = data;
+            errorMsg = data?.error || errorMsg;
+        } else {
+            body = await res.text().catch(() => undefined);
+        }
+        return new ApiError(res.status, path, errorMsg, body);
+    }
+
+    async request<T>(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+        return this.send<T>(`${this.baseUrl}${path}`, path, init, options);
+    }
+
+    /** GET an absolute URL (e.g. off-chain token metadata) with the same timeout and retry policy. */
+    async fetchUrl<T>(url: string, options: RequestOptions = {}): Promise<T> {
+        return this.send<T>(url, url, {}, options);
+    }
+
+    /** GET an absolute URL as raw bytes (e.g. a remote launch image), at most `maxBytes` of them. */
+    async fetchBytes(url: string, maxBytes: number, options: RequestOptions = {}): Promise<Buffer> {
+        return this.send<Buffer>(url, url, {}, options, maxBytes);
+    }
+
+    private async send<T>(url: string, path: string, init: RequestInit, options: RequestOptions, maxBytes?: number): Promise<T> {
+        const method = (init.method ?? 'GET').toUpperCase();
+        const maxAttempts = method === 'GET' ? this.retries + 1 : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            throwIfAborted(options.signal);
+            const event: RequestEvent = { method, url, path, attempt };
+            this.onRequest?.(event);
+            const started = Date.now();
+
+            let result: Attempt<T>;
+            try {
+                result = await this.attempt<T>(url, path, init, options, maxBytes);
+            } catch (error) {
+                // An oversized body would be just as large on the next attempt.
+                const retryable = error instanceof NetworkError && error.code !== 'RESPONSE_TOO_LARGE' && attempt < maxAttempts;
+                const retryInMs = retryable ? this.backoff(attempt) : undefined;
+                this.onResponse?.({ ...event, durationMs: Date.now() - started, error: error as Error, retryInMs });
+                if (!retryable) throw error;
+                await sleep(retryInMs!, options.signal);
+                continue;
+            }
+
+            const { res, data, apiError } = result;
+            if (!apiError) {
+                this.onResponse?.({ ...event, status: res.status, durationMs: Date.now() - started });
+                return data as T;
+            }
+
+            const retryable = RETRYABLE_STATUS.has(res.status) && attempt < maxAttempts;
+            let retryInMs: number | undefined;
+            if (retryable) {
+                const retryAfter = parseRetryAfter(res.headers.get('retry-after'));
+                retryInMs = retryAfter !== undefined ? Math.min(retryAfter, this.maxDelayMs) : this.backoff(attempt);
+            }
+            this.onResponse?.({ ...event, status: res.status, durationMs: Date.now() - started, error: apiError, retryInMs });
+            if (!retryable) throw apiError;
+            await sleep(retryInMs!, options.signal);
+        }
+    }
+}
@@ -0,0 +1,197 @@
+import { decode as decodeWebp } from '@cwasm/webp';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { GifReader } from 'omggif';
+import { ImageError } from './errors';
+
+// Launch image rules and the pure-JS (WASM for WebP) pipeline that brings an image within them.
+
+export const IMAGE_MAX_BYTES = 500 * 1024; // hard cap
+export const IMAGE_DOWNLOAD_MAX_BYTES = 8 * 1024 * 1024; // remote images larger than this are not downloaded, even to normalize
+export const IMAGE_MIN_DIM = 512;
+export const IMAGE_MAX_DIM = 2048;
+
+export type ImageMime = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif';
+
+export interface ImageInfo {
+    mime: ImageMime;
+    width: number;
+    height: number;
+    bytes: number;
+}
+
+const JPEG_QUALITIES = [90, 82, 74, 66, 58, 50];
+
+export function detectImageType(buffer: Buffer): { mime: ImageMime; ext: 'png' | 'jpg' | 'webp' | 'gif' } {
+    const isPng = buffer.length > 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]));
+    if (isPng) return { mime: 'image/png', ext: 'png' };
+
+    const isJpeg = buffer.length > 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF;
+    if (isJpeg) return { mime: 'image/jpeg', ext: 'jpg' };
+
+    const isWebp = buffer.length > 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP';
+    if (isWebp) return { mime: 'image/webp', ext: 'webp' };
+
+    const isGif = buffer.length > 10 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6));
+    if (isGif) return { mime: 'image/gif', ext: 'gif' };
+
+    throw new ImageError('Unsupported image format. Use PNG, JPEG, WebP or GIF.');
+}
+
+export function parseImageDimensions(buffer: Buffer, mime: string): { width: number; height: number } {
+    if (mime === 'image/png') {
+        if (buffer.length < 24) throw new ImageError('Invalid PNG image');
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    if (mime === 'image/jpeg') {
+        let offset = 2;
+        while (offset < buffer.length) {
+            if (buffer[offset] !== 0xFF) {
+                offset++;
+                continue;
+            }
+            const marker = buffer[offset + 1];
+            const hasDimensions = marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker);
+            const segmentLength = buffer.readUInt16BE(offset + 2);
+            if (hasDimensions) {
+                if (offset + 9 >= buffer.length) break;
+                return {
+                    height: buffer.readUInt16BE(offset + 5),
+                    width: buffer.readUInt16BE(offset + 7)
+                };
+            }
+            offset += 2 + segmentLength;
+        }
+        throw new ImageError('Could not parse JPEG dimensions');
+    }
+
+    if (mime === 'image/webp') {
+        if (buffer.length < 30) throw new ImageError('Invalid WebP image');
+        const chunk = buffer.toString('ascii', 12, 16);
+        if (chunk === 'VP8 ') {
+            return { width: buffer.readUInt16LE(26) & 0x3FFF, height: buffer.readUInt16LE(28) & 0x3FFF };
+        }
+        if (chunk === 'VP8L') {
+            const bits = buffer.readUInt32LE(21);
+            return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+        }
+        if (chunk === 'VP8X') {
+            return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+        }
+        throw new ImageError(`Could not parse WebP dimensions (chunk ${JSON.stringify(chunk)})`);
+    }
+
+    if (mime === 'image/gif') {
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    throw new ImageError(`Unsupported image MIME type for dimension checks: ${mime}`);
+}
+
+export function validateImageShape(dimensions: { width: number; height: number }): void {
+    const { width, height } = dimensions;
+    if (width < IMAGE_MIN_DIM || height < IMAGE_MIN_DIM) {
+        throw new ImageError(`Image too small (${width}x${height}). Minimum is ${IMAGE_MIN_DIM}x${IMAGE_MIN_DIM}.`);
+    }
+    if (width > IMAGE_MAX_DIM || height > IMAGE_MAX_DIM) {
+        throw new ImageError(`Image too large (${width}x${height}). Maximum is ${IMAGE_MAX_DIM}x${IMAGE_MAX_DIM}.`);
+    }
+    if (Math.abs(width - height) > 2) {
+        throw new ImageError(`Image must be square. Got ${width}x${height}.`);
+    }
+}
+
+/** Type and dimensions of `buffer`, or an ImageError for anything the upload would reject. */
+export function checkImage(buffer: Buffer): ImageInfo {
+    if (buffer.length > IMAGE_MAX_BYTES) {
+        throw new ImageError(`Image exceeds ${IMAGE_MAX_BYTES / 1024}KB hard cap.`);
+    }
+    const { mime } = detectImageType(buffer);
+    const dimensions = parseImageDimensions(buffer, mime);
+    validateImageShape(dimensions);
+    return { mime, ...dimensions, bytes: buffer.length };
+}
+
+function decodeRgba(buffer: Buffer, mime: ImageMime): { width: number; height: number; data: Uint8Array } {
+    try {
+        if (mime === 'image/png') return PNG.sync.read(buffer);
+        if (mime === 'image/jpeg') return jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+        if (mime === 'image/webp') {
+            const { width, height, data } = decodeWebp(buffer);
+            return { width, height, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) };
+        }
+        const reader = new GifReader(buffer);
+        const data = new Uint8Array(reader.width * reader.height * 4);
+        reader.decodeAndBlitFrameRGBA(0, data);
+        return { width: reader.width, height: reader.height, data };
+    } catch (error) {
+        throw new ImageError(`Could not decode ${mime} image: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Center-crop `src` to a square and resample it to `size` x `size`, flattened onto white
+ * (JPEG has no alpha). Box-averages when shrinking, bilinear when enlarging.
+ */
+function cropAndResize(src: { width: number; height: number; data: Uint8Array }, size: number): Uint8Array {
+    const side = Math.min(src.width, src.height);
+    const left = Math.floor((src.width - side) / 2);
+    const top = Math.floor((src.height - side) / 2);
+    const scale = side / size;
+    const out = new Uint8Array(size * size * 4);
+    const pixel = (x: number, y: number, c: number) => src.data[((top + y) * src.width + left + x) * 4 + c];
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const rgba = [0, 0, 0, 0];
+            if (scale >= 1) {
+                const x0 = Math.floor(x * scale), x1 = Math.max(x0 + 1, Math.floor((x + 1) * scale));
+                const y0 = Math.floor(y * scale), y1 = Math.max(y0 + 1, Math.floor((y + 1) * scale));
+                for (let sy = y0; sy < y1; sy++) {
+                    for (let sx = x0; sx < x1; sx++) {
+                        for (let c = 0; c < 4; c++) rgba[c] += pixel(sx, sy, c);
+                    }
+                }
+                const n = (x1 - x0) * (y1 - y0);
+                for (let c = 0; c < 4; c++) rgba[c] /= n;
+            } else {
+                const fx = Math.min(side - 1, Math.max(0, (x + 0.5) * scale - 0.5));
+                const fy = Math.min(side - 1, Math.max(0, (y + 0.5) * scale - 0.5));
+                const x0 = Math.floor(fx), y0 = Math.floor(fy);
+                const x1 = Math.min(side - 1, x0 + 1), y1 = Math.min(side - 1, y0 + 1);
+                const dx = fx - x0, dy = fy - y0;
+                for (let c = 0; c < 4; c++) {
+                    rgba[c] = (pixel(x0, y0, c) * (1 - dx) + pixel(x1, y0, c) * dx) * (1 - dy)
+                        + (pixel(x0, y1, c) * (1 - dx) + pixel(x1, y1, c) * dx) * dy;
+                }
+            }
+            const alpha = rgba[3] / 255;
+            const i = (y * size + x) * 4;
+            for (let c = 0; c < 3; c++) out[i + c] = Math.round(rgba[c] * alpha + 255 * (1 - alpha));
+            out[i + 3] = 255;
+        }
+    }
+    return out;
+}
+
+/**
+ * Re-encode `buffer` as a square JPEG that passes checkImage: center-crop, scale into
+ * 512-2048px, then lower quality (and, as a last resort, size) until it fits the byte cap.
+ * GIFs keep their first frame.
+ */
+export function normalizeImage(buffer: Buffer): Buffer {
+    const { mime } = detectImageType(buffer);
+    const decoded = decodeRgba(buffer, mime);
+    let size = Math.min(IMAGE_MAX_DIM, Math.max(IMAGE_MIN_DIM, Math.min(decoded.width, decoded.height)));
+    for (;;) {
+        const data = cropAndResize(decoded, size);
+        for (const quality of JPEG_QUALITIES) {
+            const encoded = jpeg.encode({ data, width: size, height: size }, quality).data;
+            if (encoded.length <= IMAGE_MAX_BYTES) return Buffer.from(encoded);
+        }
+        if (size === IMAGE_MIN_DIM) break;
+        size = Math.max(IMAGE_MIN_DIM, Math.floor(size * 0.75));
+    }
+    throw new ImageError(`Could not compress image under ${IMAGE_MAX_BYTES / 1024}KB.`);
+}
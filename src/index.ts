@@ -1,41 +1,139 @@
-import { createWalletClient, http, publicActions, parseUnits, formatUnits, type WalletClient, type PublicClient, type Account, type Chain } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { createPublicClient, http, parseUnits, formatUnits, formatEther, parseEventLogs, encodeFunctionData, isAddress, maxUint256, parseTransaction, recoverTransactionAddress, type PublicClient, type Chain, type TransactionReceipt } from 'viem';
 import { base } from 'viem/chains';
-import fetch from 'isomorphic-fetch';
 import { readFile } from 'node:fs/promises';
+import { erc20Abi, factoryAbi, marketAbi, priceFeedAbi } from './abis';
+import { verifyIntent } from './verify';
+import { AERODROME_FACTORY, AERODROME_ROUTER, encodeSwap, orient, quotePool, readPoolState, volatileAmountIn, type PoolState } from './aerodrome';
+import { curveStateFromMarket, marketCap, quoteBuyExactOut, quotePriceImpactBps } from './curve';
+import { HttpClient, sleep, throwIfAborted } from './http';
+import { SignerSource } from './signer';
+import { parseSignedTransactions, toSafeTransactionBatch, toUnsignedTransactions } from './export';
+import { getLogsChunked, launchEventsAbi, marketEventsAbi, toLaunchEvent, toMarketEvent, watchLogs } from './events';
+import { buildCandles, parseInterval, toTrade } from './history';
+import { IMAGE_DOWNLOAD_MAX_BYTES, checkImage, detectImageType, normalizeImage, parseImageDimensions } from './image';
+import { DEFAULT_IPFS_GATEWAY, decodeDataUri, ipfsToGateway, parseTokenMetadata } from './metadata';
+import { cursorOffset, filterTokens, isOffsetCursor, offsetCursor, pageTokens, sortTokens, tokenQueryString, validateTokenQuery } from './tokens';
+import { TransactionManager, type SentTransaction, type TxRequest } from './transactions';
+import { PaperLedger } from './paper';
+import {
+    AbortedError,
+    ApiError,
+    ImageError,
+    MetadataError,
+    MoltmoonError,
+    PaperModeError,
+    PaperTradeError,
+    PriceImpactError,
+    TransactionError,
+    ValidationError,
+    toTransactionError,
+} from './errors';
 import {
     MoltmoonConfig,
     LaunchParams,
     LaunchPreparation,
+    LaunchResult,
     Token,
     MarketDetails,
     QuoteResponse,
     RewardsEarned,
     MigrationStatus,
+    Portfolio,
+    PortfolioPosition,
     TransactionIntent,
+    IntentExpectation,
+    TrustedContracts,
+    RequestOptions,
+    TradeOptions,
+    TradePreview,
+    TradeVenue,
+    PlannedTransaction,
+    SimulationResult,
+    PrepareOptions,
+    SafeTransactionBatch,
+    UnsignedTransactionBundle,
+    BroadcastResult,
+    MarketEventHandlers,
+    GraduatedEvent,
+    LaunchEvent,
+    WatchOptions,
+    Unwatch,
+    Trade,
+    Candle,
+    TradeHistoryOptions,
+    BuyEvent,
+    SellEvent,
+    TokenQuery,
+    TokenPage,
+    TokenMetadata,
+    LaunchImage,
+    InitialBuyResult,
+    PaperConfig,
+    PaperLedgerState,
+    PaperPnl,
+    PaperPositionPnl,
 } from './types';
 
+export { verifyIntent } from './verify';
+export * from './errors';
+export * from './curve';
+export { toSafeTransactionBatch, toUnsignedTransactions, parseSignedTransactions } from './export';
+export { toMarketEvent, toLaunchEvent } from './events';
+export { buildCandles, parseInterval, toTrade } from './history';
+export { IMAGE_MAX_BYTES, IMAGE_MIN_DIM, IMAGE_MAX_DIM, IMAGE_DOWNLOAD_MAX_BYTES, checkImage, normalizeImage } from './image';
+export { parseLaunchConfig, loadLaunchConfig, loadLaunchBatch, defaultLaunchStateFile, readLaunchBatchState, writeLaunchBatchState } from './launch-config';
+export { decodeDataUri, ipfsToGateway, parseTokenMetadata } from './metadata';
+export { AERODROME_ROUTER, AERODROME_FACTORY } from './aerodrome';
+export { StrategyRunner, parseStrategy, loadStrategy, defaultStrategyStateFile, readStrategyState } from './strategy';
+export { PAPER_ACCOUNT, DEFAULT_PAPER_USDC } from './paper';
+export { MockMoltmoonServer } from './mock-server';
+export { WalletRegistry, loadWalletRegistry } from './wallets';
+
+export const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const BASE_ETH_USD_FEED = '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70';
+const SWAP_DEADLINE_SECONDS = 20 * 60;
+const MARKET_STATE_BATCH = 8; // concurrent getMarket reads when the token list lacks market state
+
 export class MoltmoonSDK {
-    private baseUrl: string;
-    private client?: WalletClient & PublicClient;
-    private account?: Account;
+    private http: HttpClient;
+    private signer: SignerSource;
+    private publicClient: PublicClient;
     private chain: Chain;
-    private readonly imageMaxBytes = 500 * 1024; // hard cap
-    private readonly imageMinDim = 512;
-    private readonly imageMaxDim = 2048;
+    private verifyIntents: boolean;
+    private trustedContracts: TrustedContracts;
+    private infiniteApprovals: boolean;
+    private maxPriceImpactBps?: number;
+    private txs: TransactionManager;
+    private pipelineApprovals: boolean;
+    private pipelineGasLimit: bigint;
+    private ethUsdPriceFeed: `0x${string}`;
+    private ipfsGateway: string;
+    private readonly metadataCache = new Map<string, Promise<TokenMetadata>>();
+    private normalizeImages: boolean;
+    private paperConfig?: PaperConfig;
+    private paperLedger?: Promise<PaperLedger>;
+    private log: (message: string) => void;
 
     constructor(config: MoltmoonConfig) {
-        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.http = new HttpClient(config);
         this.chain = this.resolveChain(config);
-
-        if (config.privateKey) {
-            this.account = privateKeyToAccount(config.privateKey);
-            this.client = createWalletClient({
-                account: this.account,
-                chain: this.chain,
-                transport: http(config.rpcUrl)
-            }).extend(publicActions) as any;
-        }
+        this.verifyIntents = config.verifyIntents ?? true;
+        this.trustedContracts = { usdc: BASE_USDC, ...config.trustedContracts };
+        this.infiniteApprovals = config.infiniteApprovals ?? false;
+        this.maxPriceImpactBps = config.maxPriceImpactBps;
+        this.log = config.onLog ?? ((message) => console.error(message));
+        this.publicClient = createPublicClient({ chain: this.chain, transport: http(config.rpcUrl) });
+        this.signer = new SignerSource(config, this.chain);
+        this.txs = new TransactionManager(this.publicClient, this.signer, this.chain, {
+            maxFeePerGas: config.maxFeePerGas,
+            maxPriorityFeePerGas: config.maxPriorityFeePerGas
+        });
+        this.pipelineApprovals = config.pipelineApprovals ?? false;
+        this.pipelineGasLimit = config.pipelineGasLimit ?? 500_000n;
+        this.ethUsdPriceFeed = config.ethUsdPriceFeed ?? BASE_ETH_USD_FEED;
+        this.ipfsGateway = config.ipfsGateway ?? DEFAULT_IPFS_GATEWAY;
+        this.normalizeImages = config.normalizeImages ?? false;
+        this.paperConfig = config.mode === 'paper' ? { ...config.paper } : undefined;
     }
 
     private resolveChain(config: MoltmoonConfig): Chain {
@@ -46,137 +144,121 @@ export class MoltmoonSDK {
         try {
             return new URL(value).toString();
         } catch {
-            throw new Error(`Invalid ${field} URL: ${value}`);
+            throw new ValidationError(field, `Invalid ${field} URL: ${value}`);
         }
     }
 
-    private parseImageDimensions(buffer: Buffer, mime: string): { width: number; height: number } {
-        if (mime === 'image/png') {
-            if (buffer.length < 24) throw new Error('Invalid PNG image');
-            return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    private parseAmount(value: string, decimals: number, field: string): bigint {
+        const trimmed = String(value).trim();
+        if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+            throw new ValidationError(field, `Invalid ${field} amount: ${value}`);
         }
-
-        if (mime === 'image/jpeg') {
-            let offset = 2;
-            while (offset < buffer.length) {
-                if (buffer[offset] !== 0xFF) {
-                    offset++;
-                    continue;
-                }
-                const marker = buffer[offset + 1];
-                const hasDimensions = marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker);
-                const segmentLength = buffer.readUInt16BE(offset + 2);
-                if (hasDimensions) {
-                    if (offset + 9 >= buffer.length) break;
-                    return {
-                        height: buffer.readUInt16BE(offset + 5),
-                        width: buffer.readUInt16BE(offset + 7)
-                    };
-                }
-                offset += 2 + segmentLength;
-            }
-            throw new Error('Could not parse JPEG dimensions');
-        }
-
-        throw new Error(`Unsupported image MIME type for dimension checks: ${mime}`);
-    }
-
-    private detectImageType(buffer: Buffer): { mime: 'image/png' | 'image/jpeg'; ext: 'png' | 'jpg' } {
-        const isPng = buffer.length > 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]));
-        if (isPng) return { mime: 'image/png', ext: 'png' };
-
-        const isJpeg = buffer.length > 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF;
-        if (isJpeg) return { mime: 'image/jpeg', ext: 'jpg' };
-
-        throw new Error('Unsupported image format. Use PNG or JPEG.');
+        const wei = parseUnits(trimmed, decimals);
+        if (wei <= 0n) throw new ValidationError(field, `${field} must be greater than 0.`);
+        return wei;
     }
 
-    private validateImageShape(dimensions: { width: number; height: number }): void {
-        const { width, height } = dimensions;
-        const minDim = this.imageMinDim;
-        const maxDim = this.imageMaxDim;
-        if (width < minDim || height < minDim) {
-            throw new Error(`Image too small (${width}x${height}). Minimum is ${minDim}x${minDim}.`);
-        }
-        if (width > maxDim || height > maxDim) {
-            throw new Error(`Image too large (${width}x${height}). Maximum is ${maxDim}x${maxDim}.`);
-        }
-        if (Math.abs(width - height) > 2) {
-            throw new Error(`Image must be square. Got ${width}x${height}.`);
+    private parseSlippage(slippageBps: number): bigint {
+        if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+            throw new ValidationError('slippageBps', `Slippage must be an integer between 0 and 10000 bps. Got ${slippageBps}.`);
         }
+        return BigInt(slippageBps);
     }
 
-    private normalizeDataUrlImage(dataUrl: string): string {
-        const match = dataUrl.match(/^data:(image\/(?:png|jpeg|jpg));base64,([A-Za-z0-9+/=]+)$/i);
-        if (!match) {
-            throw new Error('Invalid data URL image. Use base64 PNG or JPEG.');
+    private async readImageInput(imageFile: Buffer | string, options: RequestOptions): Promise<{ buffer: Buffer; claimedMime?: string }> {
+        if (Buffer.isBuffer(imageFile)) return { buffer: imageFile };
+        if (typeof imageFile !== 'string') {
+            throw new ImageError('Unsupported imageFile type. Use Buffer, data URL, https URL, or local file path.');
         }
 
-        const claimedMime = match[1].toLowerCase();
-        const imageBuffer = Buffer.from(match[2], 'base64');
-        if (imageBuffer.length > this.imageMaxBytes) {
-            throw new Error(`Image exceeds ${this.imageMaxBytes / 1024}KB hard cap.`);
+        if (imageFile.startsWith('data:image/')) {
+            const match = imageFile.match(/^data:(image\/(?:png|jpeg|jpg|webp|gif));base64,([A-Za-z0-9+/=]+)$/i);
+            if (!match) {
+                throw new ImageError('Invalid data URL image. Use base64 PNG, JPEG, WebP or GIF.');
+            }
+            return { buffer: Buffer.from(match[2], 'base64'), claimedMime: match[1].toLowerCase() };
         }
 
-        const imageType = this.detectImageType(imageBuffer);
-        if (claimedMime !== imageType.mime && !(claimedMime === 'image/jpg' && imageType.mime === 'image/jpeg')) {
-            throw new Error(`Image MIME/content mismatch. Claimed ${claimedMime}, detected ${imageType.mime}.`);
+        if (/^[a-z][a-z0-9+.-]*:\/\//i.test(imageFile)) {
+            if (!imageFile.toLowerCase().startsWith('https://')) {
+                throw new ImageError(`Only https:// image URLs are supported. Got ${imageFile}`);
+            }
+            try {
+                return { buffer: await this.http.fetchBytes(imageFile, IMAGE_DOWNLOAD_MAX_BYTES, options) };
+            } catch (error) {
+                if (error instanceof AbortedError) throw error;
+                throw new ImageError(`Could not download image ${imageFile}: ${(error as Error).message}`);
+            }
         }
 
-        const dimensions = this.parseImageDimensions(imageBuffer, imageType.mime);
-        this.validateImageShape(dimensions);
-        return `data:${imageType.mime};base64,${imageBuffer.toString('base64')}`;
-    }
-
-    private async normalizeImageInput(imageFile: LaunchParams['imageFile']): Promise<string | undefined> {
-        if (!imageFile) return undefined;
-
-        if (typeof imageFile === 'string' && imageFile.startsWith('data:image/')) {
-            return this.normalizeDataUrlImage(imageFile);
+        try {
+            return { buffer: await readFile(imageFile) };
+        } catch (error: any) {
+            throw new ImageError(`Could not read image file ${imageFile}: ${error.message}`);
         }
+    }
 
-        let imageBuffer: Buffer;
-        if (Buffer.isBuffer(imageFile)) {
-            imageBuffer = imageFile;
-        } else if (typeof imageFile === 'string') {
-            imageBuffer = await readFile(imageFile);
-        } else {
-            throw new Error('Unsupported imageFile type. Use Buffer, data URL, or local file path.');
+    /** Read, check and optionally normalize a launch image into the data URL that gets uploaded. */
+    private async prepareImage(imageFile: Buffer | string, normalize: boolean, options: RequestOptions): Promise<LaunchImage> {
+        const { buffer, claimedMime } = await this.readImageInput(imageFile, options);
+        if (claimedMime) {
+            const { mime } = detectImageType(buffer);
+            if (claimedMime !== mime && !(claimedMime === 'image/jpg' && mime === 'image/jpeg')) {
+                throw new ImageError(`Image MIME/content mismatch. Claimed ${claimedMime}, detected ${mime}.`);
+            }
         }
 
-        const maxBytes = this.imageMaxBytes;
-        if (imageBuffer.length > maxBytes) {
-            throw new Error(`Image exceeds ${maxBytes / 1024}KB hard cap.`);
+        try {
+            const info = checkImage(buffer);
+            return { ...info, normalized: false, dataUrl: `data:${info.mime};base64,${buffer.toString('base64')}` };
+        } catch (error) {
+            if (!normalize || !(error instanceof ImageError)) throw error;
         }
 
-        const imageType = this.detectImageType(imageBuffer);
-        const dimensions = this.parseImageDimensions(imageBuffer, imageType.mime);
-        this.validateImageShape(dimensions);
-        return `data:${imageType.mime};base64,${imageBuffer.toString('base64')}`;
+        const normalized = normalizeImage(buffer);
+        const { mime } = detectImageType(buffer);
+        const info = checkImage(normalized);
+        return {
+            ...info,
+            normalized: true,
+            original: { mime, ...parseImageDimensions(buffer, mime), bytes: buffer.length },
+            dataUrl: `data:${info.mime};base64,${normalized.toString('base64')}`
+        };
     }
 
-    private validateLaunchParams(params: LaunchParams): void {
+    /** Throws ValidationError for the first launch parameter the API or factory would reject. Does not check the image. */
+    validateLaunchParams(params: LaunchParams): void {
+        for (const field of ['name', 'symbol', 'description', 'seedAmount'] as const) {
+            if (typeof params[field] !== 'string') throw new ValidationError(field, `${field} is required.`);
+        }
         const name = params.name.trim();
         const symbol = params.symbol.trim();
         const description = params.description.trim();
-        if (name.length < 2 || name.length > 64) throw new Error('Token name must be 2-64 characters.');
-        if (!/^[A-Za-z0-9]{2,12}$/.test(symbol)) throw new Error('Token symbol must be 2-12 alphanumeric characters.');
-        if (description.length < 5 || description.length > 500) throw new Error('Description must be 5-500 characters.');
+        if (name.length < 2 || name.length > 64) throw new ValidationError('name', 'Token name must be 2-64 characters.');
+        if (!/^[A-Za-z0-9]{2,12}$/.test(symbol)) throw new ValidationError('symbol', 'Token symbol must be 2-12 alphanumeric characters.');
+        if (description.length < 5 || description.length > 500) throw new ValidationError('description', 'Description must be 5-500 characters.');
         const seed = Number(params.seedAmount);
-        if (!Number.isFinite(seed) || seed < 20) throw new Error('Seed amount must be at least 20 USDC.');
+        if (!Number.isFinite(seed) || seed < 20) throw new ValidationError('seedAmount', 'Seed amount must be at least 20 USDC.');
+        if (params.initialBuyUsdc !== undefined) this.parseAmount(params.initialBuyUsdc, 6, 'initialBuyUsdc');
+        if (params.initialBuySlippageBps !== undefined) this.parseSlippage(params.initialBuySlippageBps);
+        for (const [key, value] of Object.entries(params.socials ?? {})) {
+            if (value) this.normalizeUrl(value, key);
+        }
     }
 
-    private async buildLaunchMetadata(params: LaunchParams): Promise<{ metadataURI: string; imageUrl?: string }> {
+    private async buildLaunchMetadata(params: LaunchParams, options: RequestOptions = {}): Promise<{ metadataURI: string; imageUrl?: string }> {
         this.validateLaunchParams(params);
         let imageUrl = '';
-        const imageDataUrl = await this.normalizeImageInput(params.imageFile);
+        const image = params.imageFile
+            ? await this.prepareImage(params.imageFile, params.normalizeImage ?? this.normalizeImages, options)
+            : undefined;
 
-        if (imageDataUrl) {
+        if (image) {
             const res = await this.request<{ url: string }>('/upload/image', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ image: imageDataUrl })
-            });
+                body: JSON.stringify({ image: image.dataUrl })
+            }, options);
             imageUrl = res.url;
         }
 
@@ -201,64 +283,590 @@ export class MoltmoonSDK {
     // =========================================================================
     // Helper Internal Methods
     // =========================================================================
-    private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
-        const url = `${this.baseUrl}${path}`;
-        const res = await fetch(url, options);
-        const contentType = res.headers.get("content-type");
-
-        if (!res.ok) {
-            let errorMsg = res.statusText;
-            if (contentType && contentType.includes("application/json")) {
-                const data: any = await res.json();
-                errorMsg = data.error || errorMsg;
+    private async request<T>(path: string, init: RequestInit = {}, options: RequestOptions = {}): Promise<T> {
+        return this.http.request<T>(path, init, options);
+    }
+
+    private async executeIntentWithReceipt(intent: TransactionIntent, expected?: IntentExpectation, signal?: AbortSignal): Promise<TransactionReceipt> {
+        return this.confirmIntent(await this.sendIntent(intent, expected, signal));
+    }
+
+    private toTxRequest(intent: TransactionIntent): TxRequest {
+        return { to: intent.to, data: intent.data, value: BigInt(intent.value || '0') };
+    }
+
+    /**
+     * Verify, simulate and broadcast an intent without waiting for it to be mined.
+     * A known `gas` limit (from a bundle simulation) skips the per-tx estimate.
+     */
+    private async sendIntent(intent: TransactionIntent, expected?: IntentExpectation, signal?: AbortSignal, gas?: bigint): Promise<SentTransaction> {
+        this.assertLive('Sending transactions');
+        await this.signer.resolve();
+        if (this.verifyIntents && expected) {
+            verifyIntent(intent, expected, this.chain.id);
+        }
+        const request = this.toTxRequest(intent);
+        // Simulating first means a failing tx throws its revert reason instead of costing gas.
+        request.gas = gas ?? await this.txs.estimateGas(request);
+        // Once broadcast a tx cannot be recalled, so cancellation is only honoured before sending.
+        throwIfAborted(signal);
+
+        this.log(`Executing: ${intent.description}`);
+        const sent = await this.txs.send(request);
+        this.log(`Tx sent: ${sent.hash} (nonce ${sent.nonce}). Waiting for confirmation...`);
+        return sent;
+    }
+
+    private async confirmIntent(sent: SentTransaction): Promise<TransactionReceipt> {
+        const receipt = await this.txs.confirm(sent);
+        this.log(`Confirmed.`);
+        return receipt;
+    }
+
+    /**
+     * A trustedContracts address the intent checks compare against. Taking it from the API's own
+     * intents would check them against themselves, so it must be pinned while verifyIntents is on.
+     */
+    private trustedContract(name: 'factory' | 'migration'): `0x${string}` | undefined {
+        const address = this.trustedContracts[name];
+        if (!address && this.verifyIntents) {
+            throw new ValidationError(name, `Intent verification needs the MoltMoon ${name} contract: set trustedContracts.${name} (or turn off verifyIntents).`);
+        }
+        return address;
+    }
+
+    private checkPlan(steps: PlannedTransaction[]): TransactionIntent[] {
+        for (const step of steps) {
+            if (this.verifyIntents) verifyIntent(step.intent, step.expected, this.chain.id);
+        }
+        return steps.map((step) => step.intent);
+    }
+
+    /**
+     * Gas limits for a sequence of intents sent by `from` (default: the signer). Later steps
+     * usually depend on an earlier approve, so the sequence is simulated as one bundle; without
+     * eth_simulateV1 only the first step is estimated and the rest are bounded by pipelineGasLimit.
+     */
+    private async intentGas(intents: TransactionIntent[], from?: `0x${string}`): Promise<{ gas: bigint; simulated: boolean }[]> {
+        const requests = intents.map((intent) => this.toTxRequest(intent));
+        const bundle = requests.length > 1 ? await this.txs.simulateBundle(requests, from) : undefined;
+        if (bundle) return bundle.map((gas) => ({ gas, simulated: true }));
+
+        const [first, ...rest] = requests;
+        return [
+            { gas: await this.txs.estimateGas(first, from), simulated: true },
+            ...rest.map(() => ({ gas: this.pipelineGasLimit, simulated: false }))
+        ];
+    }
+
+    private async planGas(steps: PlannedTransaction[]): Promise<{ gas: bigint; simulated: boolean }[]> {
+        return this.intentGas(this.checkPlan(steps));
+    }
+
+    /**
+     * Send the steps of a plan in order. With pipelineApprovals, every step is broadcast
+     * back to back (sequential nonces, gas limits from the bundle simulation) and the
+     * receipts are awaited afterwards; otherwise each step is mined before the next is sent.
+     * A batch the RPC cannot simulate as a whole is sent the sequential way rather than with guessed limits.
+     */
+    private async executePlan(steps: PlannedTransaction[], signal?: AbortSignal, pipeline = this.pipelineApprovals): Promise<TransactionReceipt[]> {
+        const receipts: TransactionReceipt[] = [];
+        if (!pipeline || steps.length < 2) {
+            for (const step of steps) {
+                receipts.push(await this.executeIntentWithReceipt(step.intent, step.expected, signal));
             }
-            throw new Error(`API Error [${res.status}]: ${errorMsg}`);
+            return receipts;
+        }
+
+        const limits = await this.planGas(steps);
+        if (limits.some((limit) => !limit.simulated)) {
+            this.log('RPC cannot simulate the batch (no eth_simulateV1); waiting for each step to be mined before sending the next.');
+            return this.executePlan(steps, signal, false);
+        }
+        const sent: SentTransaction[] = [];
+        for (const [i, step] of steps.entries()) {
+            sent.push(await this.sendIntent(step.intent, step.expected, signal, limits[i].gas));
         }
+        for (const tx of sent) {
+            receipts.push(await this.confirmIntent(tx));
+        }
+        return receipts;
+    }
 
-        if (contentType && contentType.includes("application/json")) {
-            return res.json() as Promise<T>;
+    private async executePlanHash(steps: PlannedTransaction[], signal?: AbortSignal): Promise<`0x${string}`> {
+        const receipts = await this.executePlan(steps, signal);
+        return receipts[receipts.length - 1].transactionHash;
+    }
+
+    /** ETH/USD from the Chainlink feed, as USDC raw units per ETH. Undefined when unreadable. */
+    private async ethPriceUsdc(): Promise<bigint | undefined> {
+        try {
+            const [decimals, [, answer]] = await Promise.all([
+                this.publicClient.readContract({ address: this.ethUsdPriceFeed, abi: priceFeedAbi, functionName: 'decimals' }),
+                this.publicClient.readContract({ address: this.ethUsdPriceFeed, abi: priceFeedAbi, functionName: 'latestRoundData' })
+            ]);
+            if (answer <= 0n) return undefined;
+            return decimals >= 6 ? answer / 10n ** BigInt(decimals - 6) : answer * 10n ** BigInt(6 - decimals);
+        } catch {
+            return undefined;
         }
-        return res.text() as unknown as Promise<T>;
     }
 
-    private async executeIntent(intent: TransactionIntent): Promise<`0x${string}`> {
-        if (!this.client || !this.account) {
-            throw new Error("Private key required to execute transactions. Initialize SDK with privateKey.");
+    private async simulatePlan(steps: PlannedTransaction[]): Promise<SimulationResult> {
+        const [limits, fees, ethPrice] = await Promise.all([this.planGas(steps), this.txs.fees(), this.ethPriceUsdc()]);
+        return this.priceSimulation(steps.map((step, i) => ({
+            description: step.intent.description,
+            to: step.intent.to,
+            gas: limits[i].gas,
+            simulated: limits[i].simulated,
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+        })), fees.baseFeePerGas, ethPrice);
+    }
+
+    /** Gas cost of simulated steps, each at its own fees; the reported fees are the highest offered. */
+    private priceSimulation(
+        steps: { description?: string; to: string; gas: bigint; simulated: boolean; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }[],
+        baseFeePerGas: bigint,
+        ethPrice: bigint | undefined
+    ): SimulationResult {
+        let [gas, costWei, maxCostWei, maxFeePerGas, maxPriorityFeePerGas] = [0n, 0n, 0n, 0n, 0n];
+        for (const step of steps) {
+            const effective = baseFeePerGas + step.maxPriorityFeePerGas;
+            gas += step.gas;
+            costWei += step.gas * (effective < step.maxFeePerGas ? effective : step.maxFeePerGas);
+            maxCostWei += step.gas * step.maxFeePerGas;
+            if (step.maxFeePerGas > maxFeePerGas) maxFeePerGas = step.maxFeePerGas;
+            if (step.maxPriorityFeePerGas > maxPriorityFeePerGas) maxPriorityFeePerGas = step.maxPriorityFeePerGas;
         }
+        return {
+            steps: steps.map((step) => ({ description: step.description, to: step.to, gas: step.gas.toString(), simulated: step.simulated })),
+            gas: gas.toString(),
+            maxFeePerGas: maxFeePerGas.toString(),
+            maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+            costEth: formatEther(costWei),
+            maxCostEth: formatEther(maxCostWei),
+            costUsdc: ethPrice === undefined ? null : formatUnits((costWei * ethPrice) / 10n ** 18n, 6)
+        };
+    }
+
+    private buildApproveIntent(token: `0x${string}`, spender: `0x${string}`, amount: bigint): TransactionIntent {
+        return {
+            to: token,
+            data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] }),
+            value: '0',
+            chainId: this.chain.id,
+            description: amount === 0n ? `Revoke ${spender} allowance on ${token}` : `Approve ${spender} on ${token}`
+        };
+    }
 
-        console.log(`Executing: ${intent.description}`);
-        const hash = await this.client.sendTransaction({
-            to: intent.to,
-            data: intent.data,
-            value: BigInt(intent.value || '0'),
-            chain: this.chain,
-            account: this.account
+    /** The approve step needed before pulling `required` of `token`, or undefined when the allowance covers it. */
+    private async planAllowance(token: `0x${string}`, spender: `0x${string}`, required: bigint, owner?: string): Promise<PlannedTransaction | undefined> {
+        const current = await this.getAllowance(token, owner ?? await this.getAddress(), spender);
+        if (current >= required) return undefined;
+
+        const amount = this.infiniteApprovals ? maxUint256 : required;
+        return {
+            intent: this.buildApproveIntent(token, spender, amount),
+            expected: { kind: 'approve', token, spender, amount }
+        };
+    }
+
+    private decodeLaunchReceipt(receipt: TransactionReceipt): LaunchResult {
+        const [created] = parseEventLogs({
+            abi: factoryAbi,
+            eventName: 'TokenCreated',
+            logs: receipt.logs
         });
+        if (!created) {
+            throw new TransactionError(`Launch tx ${receipt.transactionHash} confirmed but no TokenCreated event was found in its logs.`, {
+                hash: receipt.transactionHash,
+                code: 'LAUNCH_EVENT_MISSING'
+            });
+        }
 
-        console.log(`Tx sent: ${hash}. Waiting for confirmation...`);
-        await this.client.waitForTransactionReceipt({ hash });
-        console.log(`Confirmed.`);
-        return hash;
+        return {
+            hash: receipt.transactionHash,
+            tokenAddress: created.args.token,
+            marketAddress: created.args.market,
+            rewardsPool: created.args.rewardsPool,
+            creator: created.args.creator,
+            blockNumber: receipt.blockNumber.toString(),
+            gasUsed: receipt.gasUsed.toString()
+        };
     }
 
     // =========================================================================
     // Read Methods
     // =========================================================================
-    async getTokens(): Promise<Token[]> {
-        const res = await this.request<{ tokens: Token[] }>('/tokens');
-        return res.tokens;
+    /** Tokens matching `query`; with `limit`, one page (see getTokensPage for the cursor). */
+    async getTokens(query: TokenQuery = {}): Promise<Token[]> {
+        return (await this.getTokensPage(query)).tokens;
+    }
+
+    /**
+     * One page of tokens. Filters and paging go to the API; if it answers with the plain
+     * list instead of a page, they are applied here and `nextCursor` is an offset cursor.
+     */
+    async getTokensPage(query: TokenQuery = {}): Promise<TokenPage> {
+        validateTokenQuery(query);
+        const res = await this.request<{ tokens: Token[]; nextCursor?: string | null }>(`/tokens${tokenQueryString(query)}`, {}, query);
+        const paged = res.nextCursor !== undefined && !(query.cursor && isOffsetCursor(query.cursor));
+        let tokens = filterTokens(res.tokens, { ...query, graduated: undefined });
+        if (paged) {
+            if (query.graduated !== undefined || query.sortBy === 'progress') {
+                tokens = filterTokens(await this.withMarketState(tokens, query), { graduated: query.graduated });
+            }
+            return { tokens, nextCursor: res.nextCursor ?? null };
+        }
+
+        // Only a progress sort needs every market read up front; otherwise just the page's are.
+        if (query.sortBy === 'progress') tokens = await this.withMarketState(tokens, query);
+        const sorted = sortTokens(tokens, query.sortBy);
+        if (query.graduated === undefined) return pageTokens(sorted, query.limit, query.cursor);
+        return this.pageByGraduation(sorted, query);
+    }
+
+    /**
+     * A page of `sorted` tokens matching `query.graduated`, reading market state in small batches
+     * from the cursor on until the page is full. The offset cursor counts tokens scanned, not kept.
+     */
+    private async pageByGraduation(sorted: Token[], query: TokenQuery): Promise<TokenPage> {
+        const limit = query.limit ?? sorted.length;
+        const tokens: Token[] = [];
+        let next = cursorOffset(query.cursor);
+        while (next < sorted.length && tokens.length < limit) {
+            for (const token of await this.withMarketState(sorted.slice(next, next + MARKET_STATE_BATCH), query)) {
+                next++;
+                if ((token.graduated ?? false) === query.graduated) tokens.push(token);
+                if (tokens.length === limit) break;
+            }
+        }
+        return { tokens, nextCursor: query.limit !== undefined && next < sorted.length ? offsetCursor(next) : null };
+    }
+
+    /** Every token matching `query`, fetched page by page (`limit` is the page size, default 100). */
+    async *iterateTokens(query: TokenQuery = {}): AsyncGenerator<Token> {
+        let cursor = query.cursor;
+        do {
+            const page = await this.getTokensPage({ ...query, limit: query.limit ?? 100, cursor });
+            yield* page.tokens;
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+    }
+
+    /** The listed token whose token or market address is `address`. */
+    async getToken(address: string, options: RequestOptions = {}): Promise<Token> {
+        const needle = address.toLowerCase();
+        const tokens = await this.getTokens({ ...options, search: address });
+        const found = tokens.find((t) => t.token.toLowerCase() === needle || t.market.toLowerCase() === needle);
+        if (!found) throw new ValidationError('token', `No MoltMoon token with token or market address ${address}.`);
+        return found;
+    }
+
+    /**
+     * Name, description, image and socials from a token's metadata URI (data:, https: or
+     * ipfs: through `ipfsGateway`). Results are cached per URI; `refresh` re-reads.
+     */
+    async getTokenMetadata(token: string | Token, options: RequestOptions & { refresh?: boolean } = {}): Promise<TokenMetadata> {
+        const { uri } = typeof token === 'string' ? await this.getToken(token, options) : token;
+        const cached = this.metadataCache.get(uri);
+        if (cached && !options.refresh) return cached;
+        const pending = this.resolveMetadata(uri, options);
+        this.metadataCache.set(uri, pending);
+        pending.catch(() => this.metadataCache.delete(uri));
+        return pending;
+    }
+
+    private async resolveMetadata(uri: string, options: RequestOptions): Promise<TokenMetadata> {
+        if (uri.startsWith('data:')) return parseTokenMetadata(decodeDataUri(uri), uri, this.ipfsGateway);
+        if (!uri.startsWith('https://') && !uri.startsWith('ipfs://')) {
+            throw new MetadataError(uri, `Unsupported metadata URI scheme: ${uri.slice(0, 32)}`);
+        }
+        const url = ipfsToGateway(uri, this.ipfsGateway);
+        let body: unknown;
+        try {
+            body = await this.http.fetchUrl<unknown>(url, options);
+        } catch (error) {
+            if (error instanceof AbortedError) throw error;
+            throw new MetadataError(uri, `Could not fetch token metadata from ${url}: ${(error as Error).message}`, { cause: error });
+        }
+        return parseTokenMetadata(body, uri, this.ipfsGateway);
+    }
+
+    /** Fill graduated/progressPercent from market details for tokens the API listed without them. */
+    private async withMarketState(tokens: Token[], options: RequestOptions): Promise<Token[]> {
+        const filled: Token[] = [];
+        for (let i = 0; i < tokens.length; i += MARKET_STATE_BATCH) {
+            filled.push(...await Promise.all(tokens.slice(i, i + MARKET_STATE_BATCH).map(async (token) => {
+                if (token.graduated !== undefined && token.progressPercent !== undefined) return token;
+                const market = await this.getMarket(token.market, options);
+                return { ...token, graduated: market.graduated, progressPercent: market.progressPercent };
+            })));
+        }
+        return filled;
+    }
+
+    async getMarket(marketAddress: string, options: RequestOptions = {}): Promise<MarketDetails> {
+        return this.request<MarketDetails>(`/markets/${marketAddress}`, {}, options);
+    }
+
+    /** Quote a buy on the market's current venue: the API curve quote, or the Aerodrome pool reserves once graduated. */
+    async getQuoteBuy(marketAddress: string, usdcIn: string, options: RequestOptions = {}): Promise<QuoteResponse> {
+        return (await this.venueQuote('buy', marketAddress, usdcIn, options)).quote;
+    }
+
+    /** Quote a sell on the market's current venue (see getQuoteBuy). */
+    async getQuoteSell(marketAddress: string, tokensIn: string, options: RequestOptions = {}): Promise<QuoteResponse> {
+        return (await this.venueQuote('sell', marketAddress, tokensIn, options)).quote;
+    }
+
+    /** The Aerodrome pool a graduated market trades on, or undefined while it is still on the curve. */
+    private async graduatedPool(market: MarketDetails): Promise<PoolState | undefined> {
+        if (!market.graduated || !market.aerodromePool) return undefined;
+        const pool = await readPoolState(this.publicClient, market.aerodromePool as `0x${string}`);
+        orient(pool, this.trustedContracts.usdc!);
+        orient(pool, market.token);
+        return pool;
+    }
+
+    /**
+     * Market snapshot plus a quote from the venue it trades on. Pool quotes report the pool fee
+     * in USDC: taken from the input on buys, valued at the quoted output on sells.
+     */
+    private async venueQuote(
+        side: 'buy' | 'sell',
+        marketAddress: string,
+        amount: string,
+        options: RequestOptions,
+        market?: MarketDetails
+    ): Promise<{ market: MarketDetails; quote: QuoteResponse; pool?: PoolState; poolImpactBps?: bigint }> {
+        market ??= await this.getMarket(marketAddress, options);
+        const pool = await this.graduatedPool(market);
+        if (!pool) {
+            const path = side === 'buy' ? `quote/buy?usdcIn=${amount}` : `quote/sell?tokensIn=${amount}`;
+            const quote = await this.request<QuoteResponse>(`/markets/${marketAddress}/${path}`, {}, options);
+            return { market, quote: { ...quote, venue: 'curve' } };
+        }
+
+        const [inDecimals, outDecimals] = side === 'buy' ? [6, 18] : [18, 6];
+        const amountIn = this.parseAmount(amount, inDecimals, side === 'buy' ? 'usdcIn' : 'tokensIn');
+        const tokenIn = side === 'buy' ? this.trustedContracts.usdc! : market.token;
+        const { amountOut, fee, priceImpactBps } = await quotePool(this.publicClient, pool, tokenIn, amountIn);
+        const feeUsdc = side === 'buy' ? fee : (amountOut * pool.feeBps) / (10_000n - pool.feeBps);
+        return {
+            market,
+            pool,
+            poolImpactBps: priceImpactBps,
+            quote: {
+                amountIn: formatUnits(amountIn, inDecimals),
+                amountOut: formatUnits(amountOut, outDecimals),
+                feePaid: formatUnits(feeUsdc, 6),
+                venue: 'aerodrome'
+            }
+        };
+    }
+
+    /** Signer address (the ledger's account in paper mode). Throws SignerRequiredError on read-only instances. */
+    async getAddress(): Promise<`0x${string}`> {
+        if (this.paperConfig) return (await this.ledger()).account;
+        return (await this.signer.resolve()).address;
+    }
+
+    /** ERC20 balance, read on-chain (raw units). In paper mode the ledger account's balances come from the ledger. */
+    async getBalance(tokenAddress: string, account: string): Promise<bigint> {
+        const paper = await this.paperLedgerFor(account);
+        if (paper) {
+            return tokenAddress.toLowerCase() === this.trustedContracts.usdc!.toLowerCase()
+                ? paper.usdcBalance()
+                : paper.tokenBalance(tokenAddress);
+        }
+        return this.publicClient.readContract({
+            address: tokenAddress as `0x${string}`,
+            abi: erc20Abi,
+            functionName: 'balanceOf',
+            args: [account as `0x${string}`]
+        });
+    }
+
+    /** ERC20 decimals, read on-chain. */
+    async getDecimals(tokenAddress: string): Promise<number> {
+        return this.publicClient.readContract({ address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: 'decimals' });
+    }
+
+    /** Current ERC20 allowance, read on-chain (raw units). */
+    async getAllowance(tokenAddress: string, owner: string, spender: string): Promise<bigint> {
+        return this.publicClient.readContract({
+            address: tokenAddress as `0x${string}`,
+            abi: erc20Abi,
+            functionName: 'allowance',
+            args: [owner as `0x${string}`, spender as `0x${string}`]
+        });
+    }
+
+    /**
+     * Everything `account` holds across MoltMoon tokens.
+     * Balances come from one multicall; quotes, market state and rewards from the API.
+     */
+    async getPortfolio(account: string, options: RequestOptions = {}): Promise<Portfolio> {
+        const owner = account as `0x${string}`;
+        const tokens = await this.getTokens(options);
+        const paper = await this.paperLedgerFor(account);
+        const [usdcBalance, ...balances] = paper
+            ? [paper.usdcBalance(), ...tokens.map((t) => paper.tokenBalance(t.token))]
+            : await this.publicClient.multicall({
+                allowFailure: false,
+                contracts: [this.trustedContracts.usdc!, ...tokens.map((t) => t.token as `0x${string}`)].map((address) => ({
+                    address,
+                    abi: erc20Abi,
+                    functionName: 'balanceOf' as const,
+                    args: [owner] as const
+                }))
+            });
+
+        const held = tokens
+            .map((token, i) => ({ token, balance: balances[i] }))
+            .filter(({ balance }) => balance > 0n);
+
+        const positions = await Promise.all(held.map(async ({ token, balance }): Promise<PortfolioPosition> => {
+            const amount = formatUnits(balance, 18);
+            const market = await this.getMarket(token.market, options);
+            let valueUsdc: string | null = null;
+            try {
+                valueUsdc = (await this.venueQuote('sell', token.market, amount, options, market)).quote.amountOut;
+            } catch (error) {
+                // Paused markets reject quotes and pools can be unreadable; report the position without a value.
+                if (!(error instanceof ApiError) && !(error instanceof TransactionError)) throw error;
+            }
+
+            const rewardsPool = token.rewardsPool || market.holderRewardsPool || undefined;
+            const unclaimedRewards = rewardsPool
+                ? (await this.getRewardsEarned(rewardsPool, account, options)).earned
+                : '0';
+
+            return {
+                token: token.token,
+                market: token.market,
+                name: token.name,
+                symbol: token.symbol,
+                balance: amount,
+                balanceRaw: balance.toString(),
+                valueUsdc,
+                progressPercent: market.progressPercent,
+                graduated: market.graduated,
+                rewardsPool,
+                unclaimedRewards
+            };
+        }));
+
+        const totalWei = positions.reduce((sum, p) => sum + (p.valueUsdc ? parseUnits(p.valueUsdc, 6) : 0n), 0n);
+        return {
+            account,
+            usdcBalance: formatUnits(usdcBalance, 6),
+            positions,
+            totalValueUsdc: formatUnits(totalWei, 6)
+        };
+    }
+
+    // =========================================================================
+    // Event Subscriptions
+    // =========================================================================
+
+    /**
+     * Stream Buy/Sell/Graduated events of one market. Missed blocks (RPC errors, reconnects)
+     * are backfilled in order before new ones. Returns a function that stops the watcher.
+     */
+    watchMarket(marketAddress: string, handlers: MarketEventHandlers): Unwatch {
+        return watchLogs(this.publicClient, {
+            address: marketAddress as `0x${string}`,
+            abi: marketEventsAbi,
+            fromBlock: handlers.fromBlock,
+            pollingIntervalMs: handlers.pollingIntervalMs,
+            chunkSize: handlers.chunkSize,
+            onError: handlers.onError,
+            onLog: (log) => {
+                const event = toMarketEvent(log);
+                if (event?.type === 'buy') handlers.onBuy?.(event);
+                else if (event?.type === 'sell') handlers.onSell?.(event);
+                else if (event?.type === 'graduated') handlers.onGraduated?.(event);
+            }
+        });
+    }
+
+    /** Stream graduation of one market (fires at most once per market). */
+    watchGraduation(marketAddress: string, handler: (event: GraduatedEvent) => void, options: WatchOptions = {}): Unwatch {
+        return this.watchMarket(marketAddress, { ...options, onGraduated: handler });
     }
 
-    async getMarket(marketAddress: string): Promise<MarketDetails> {
-        return this.request<MarketDetails>(`/markets/${marketAddress}`);
+    /**
+     * Stream new token launches from the factory's TokenCreated events.
+     * The factory comes from `options.factory` or `trustedContracts.factory`.
+     */
+    watchLaunches(handler: (event: LaunchEvent) => void, options: WatchOptions & { factory?: string } = {}): Unwatch {
+        const factory = options.factory ?? this.trustedContracts.factory;
+        if (!factory) {
+            throw new ValidationError('factory', 'watchLaunches needs the factory address: pass options.factory or set trustedContracts.factory.');
+        }
+        return watchLogs(this.publicClient, {
+            address: factory as `0x${string}`,
+            abi: launchEventsAbi,
+            fromBlock: options.fromBlock,
+            pollingIntervalMs: options.pollingIntervalMs,
+            chunkSize: options.chunkSize,
+            onError: options.onError,
+            onLog: (log) => {
+                const event = toLaunchEvent(log);
+                if (event) handler(event);
+            }
+        });
     }
 
-    async getQuoteBuy(marketAddress: string, usdcIn: string): Promise<QuoteResponse> {
-        return this.request<QuoteResponse>(`/markets/${marketAddress}/quote/buy?usdcIn=${usdcIn}`);
+    // =========================================================================
+    // Trade History
+    // =========================================================================
+
+    /**
+     * Buys and sells of one market between two blocks, oldest first, read from on-chain
+     * logs in chunked eth_getLogs ranges. Defaults to roughly the last 24h.
+     */
+    async getTrades(marketAddress: string, options: TradeHistoryOptions = {}): Promise<Trade[]> {
+        const toBlock = options.toBlock ?? await this.publicClient.getBlockNumber();
+        const fromBlock = options.fromBlock ?? (toBlock > 43_200n ? toBlock - 43_200n : 0n);
+        if (fromBlock > toBlock) {
+            throw new ValidationError('fromBlock', `fromBlock ${fromBlock} is after toBlock ${toBlock}.`);
+        }
+
+        const events: (BuyEvent | SellEvent)[] = [];
+        await getLogsChunked(this.publicClient, {
+            address: marketAddress as `0x${string}`,
+            abi: marketEventsAbi,
+            fromBlock,
+            toBlock,
+            chunkSize: options.chunkSize
+        }, (logs) => {
+            throwIfAborted(options.signal);
+            for (const log of logs) {
+                const event = toMarketEvent(log);
+                if (event?.type === 'buy' || event?.type === 'sell') events.push(event);
+            }
+        });
+
+        const blocks = [...new Set(events.map((event) => event.blockNumber))];
+        const timestamps = new Map<string, number>();
+        for (let i = 0; i < blocks.length; i += 10) {
+            throwIfAborted(options.signal);
+            const batch = blocks.slice(i, i + 10);
+            const fetched = await Promise.all(batch.map((blockNumber) =>
+                this.publicClient.getBlock({ blockNumber: BigInt(blockNumber) })));
+            fetched.forEach((block, j) => timestamps.set(batch[j], Number(block.timestamp)));
+        }
+        return events.map((event) => toTrade(event, timestamps.get(event.blockNumber)!));
     }
 
-    async getQuoteSell(marketAddress: string, tokensIn: string): Promise<QuoteResponse> {
-        return this.request<QuoteResponse>(`/markets/${marketAddress}/quote/sell?tokensIn=${tokensIn}`);
+    /** OHLCV candles for one market; `interval` is e.g. '1m', '5m', '1h', '1d' or seconds. */
+    async getCandles(marketAddress: string, interval: string | number = '5m', options: TradeHistoryOptions = {}): Promise<Candle[]> {
+        const seconds = parseInterval(interval);
+        return buildCandles(await this.getTrades(marketAddress, options), seconds);
     }
 
     // =========================================================================
@@ -268,65 +876,521 @@ export class MoltmoonSDK {
         return details.progressPercent;
     }
 
+    /** Fully diluted market cap in USDC (spot price x 1B supply). */
     calculateMarketCap(details: MarketDetails): number {
-        // baseReserveReal is 6 decimals USDC
-        return Number(details.baseReserveReal) / 1000000;
+        return Number(formatUnits(marketCap(curveStateFromMarket(details)), 6));
     }
 
     // =========================================================================
     // Rewards Methods
     // =========================================================================
 
-    async getRewardsEarned(poolAddress: string, account: string): Promise<RewardsEarned> {
-        return this.request<RewardsEarned>(`/rewards/${poolAddress}/earned?account=${account}`);
+    async getRewardsEarned(poolAddress: string, account: string, options: RequestOptions = {}): Promise<RewardsEarned> {
+        return this.request<RewardsEarned>(`/rewards/${poolAddress}/earned?account=${account}`, {}, options);
     }
 
-    async claimRewards(poolAddress: string): Promise<string> {
+    private async planClaimRewards(poolAddress: string, options: PrepareOptions): Promise<PlannedTransaction[]> {
         const intent = await this.request<TransactionIntent>(`/intent/rewards/${poolAddress}/claim`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({})
-        });
-        return this.executeIntent(intent);
+        }, options);
+        return [{ intent, expected: { kind: 'claim', pool: poolAddress as `0x${string}` } }];
+    }
+
+    async claimRewards(poolAddress: string, options: RequestOptions = {}): Promise<string> {
+        this.assertLive('claimRewards');
+        return this.executePlanHash(await this.planClaimRewards(poolAddress, options), options.signal);
+    }
+
+    async simulateClaimRewards(poolAddress: string, options: RequestOptions = {}): Promise<SimulationResult> {
+        return this.simulatePlan(await this.planClaimRewards(poolAddress, options));
+    }
+
+    /** Verified claim intent, unsigned. */
+    async prepareClaimRewards(poolAddress: string, options: PrepareOptions = {}): Promise<TransactionIntent[]> {
+        return this.checkPlan(await this.planClaimRewards(poolAddress, options));
     }
 
     // =========================================================================
     // Migration Methods
     // =========================================================================
 
-    async getMigrationStatus(): Promise<MigrationStatus> {
-        return this.request<MigrationStatus>('/migration/status');
+    async getMigrationStatus(options: RequestOptions = {}): Promise<MigrationStatus> {
+        return this.request<MigrationStatus>('/migration/status', {}, options);
     }
 
-    async migrate(v1Amount: string): Promise<string> {
-        // 1. Approve V1 tokens to migration contract
-        const approveIntent = await this.request<TransactionIntent>('/intent/migration/approve', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ amount: v1Amount })
-        });
-        await this.executeIntent(approveIntent);
+    private async planMigrate(v1Amount: string, options: PrepareOptions): Promise<PlannedTransaction[]> {
+        const amountWei = this.parseAmount(v1Amount, 18, 'amount');
+        const pinned = this.trustedContract('migration');
+        const status = await this.getMigrationStatus(options);
+        const migrationContract = pinned ?? status.migrationContract as `0x${string}`;
+
+        // 1. Approve V1 tokens to migration contract (skipped when allowance already covers it)
+        const approval = await this.planAllowance(status.oldToken as `0x${string}`, migrationContract, amountWei, options.from);
 
         // 2. Execute migration
         const migrateIntent = await this.request<TransactionIntent>('/intent/migration/migrate', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ amount: v1Amount })
+        }, options);
+        const migrate: PlannedTransaction = { intent: migrateIntent, expected: { kind: 'migrate', migrationContract, amount: amountWei } };
+        return approval ? [approval, migrate] : [migrate];
+    }
+
+    async migrate(v1Amount: string, options: RequestOptions = {}): Promise<string> {
+        this.assertLive('migrate');
+        return this.executePlanHash(await this.planMigrate(v1Amount, options), options.signal);
+    }
+
+    async simulateMigrate(v1Amount: string, options: RequestOptions = {}): Promise<SimulationResult> {
+        return this.simulatePlan(await this.planMigrate(v1Amount, options));
+    }
+
+    /** Verified [approve?, migrate] intents for `options.from` (default: the signer), unsigned. */
+    async prepareMigrate(v1Amount: string, options: PrepareOptions = {}): Promise<TransactionIntent[]> {
+        return this.checkPlan(await this.planMigrate(v1Amount, options));
+    }
+
+    // =========================================================================
+    // Approval Methods
+    // =========================================================================
+
+    /**
+     * Approve `spender` to pull `amount` of `tokenAddress` (human units, token decimals read on-chain).
+     * Omit `amount` for an unlimited (maxUint256) approval.
+     */
+    async approve(tokenAddress: string, spender: string, amount?: string, options: RequestOptions = {}): Promise<string> {
+        this.assertLive('approve');
+        return this.executePlanHash(await this.planApprove(tokenAddress, spender, amount), options.signal);
+    }
+
+    async simulateApprove(tokenAddress: string, spender: string, amount?: string): Promise<SimulationResult> {
+        return this.simulatePlan(await this.planApprove(tokenAddress, spender, amount));
+    }
+
+    /** Set `spender`'s allowance on `tokenAddress` back to zero. */
+    async revokeApproval(tokenAddress: string, spender: string, options: RequestOptions = {}): Promise<string> {
+        this.assertLive('revokeApproval');
+        return this.executePlanHash(this.planSetAllowance(tokenAddress, spender, 0n), options.signal);
+    }
+
+    async simulateRevokeApproval(tokenAddress: string, spender: string): Promise<SimulationResult> {
+        return this.simulatePlan(this.planSetAllowance(tokenAddress, spender, 0n));
+    }
+
+    async prepareApprove(tokenAddress: string, spender: string, amount?: string): Promise<TransactionIntent[]> {
+        return this.checkPlan(await this.planApprove(tokenAddress, spender, amount));
+    }
+
+    async prepareRevokeApproval(tokenAddress: string, spender: string): Promise<TransactionIntent[]> {
+        return this.checkPlan(this.planSetAllowance(tokenAddress, spender, 0n));
+    }
+
+    private async planApprove(tokenAddress: string, spender: string, amount?: string): Promise<PlannedTransaction[]> {
+        let amountWei = maxUint256;
+        if (amount !== undefined) {
+            amountWei = this.parseAmount(amount, await this.getDecimals(tokenAddress), 'amount');
+        }
+        return this.planSetAllowance(tokenAddress, spender, amountWei);
+    }
+
+    private planSetAllowance(tokenAddress: string, spender: string, amount: bigint): PlannedTransaction[] {
+        const token = tokenAddress as `0x${string}`;
+        const to = spender as `0x${string}`;
+        return [{ intent: this.buildApproveIntent(token, to, amount), expected: { kind: 'approve', token, spender: to, amount } }];
+    }
+
+    // =========================================================================
+    // Transfer Methods
+    // =========================================================================
+
+    /**
+     * Send `amount` of `tokenAddress` (human units, token decimals read on-chain) to `to`.
+     * Omit `amount` to send the whole balance.
+     */
+    async transfer(tokenAddress: string, to: string, amount?: string, options: RequestOptions = {}): Promise<string> {
+        this.assertLive('transfer');
+        return this.executePlanHash(await this.planTransfer(tokenAddress, to, amount), options.signal);
+    }
+
+    async simulateTransfer(tokenAddress: string, to: string, amount?: string): Promise<SimulationResult> {
+        return this.simulatePlan(await this.planTransfer(tokenAddress, to, amount));
+    }
+
+    /** Verified transfer intent for `options.from` (default: the signer), unsigned. */
+    async prepareTransfer(tokenAddress: string, to: string, amount?: string, options: PrepareOptions = {}): Promise<TransactionIntent[]> {
+        return this.checkPlan(await this.planTransfer(tokenAddress, to, amount, options.from));
+    }
+
+    private async planTransfer(tokenAddress: string, to: string, amount?: string, from?: string): Promise<PlannedTransaction[]> {
+        if (!isAddress(to)) throw new ValidationError('to', `Invalid recipient address: ${to}`);
+        const token = tokenAddress as `0x${string}`;
+        const recipient = to as `0x${string}`;
+        let amountWei: bigint;
+        if (amount !== undefined) {
+            amountWei = this.parseAmount(amount, await this.getDecimals(token), 'amount');
+        } else {
+            amountWei = await this.getBalance(token, from ?? await this.getAddress());
+        }
+        if (amountWei === 0n) throw new ValidationError('amount', `Nothing to transfer: the ${token} amount is 0.`);
+        const intent: TransactionIntent = {
+            to: token,
+            data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [recipient, amountWei] }),
+            value: '0',
+            chainId: this.chain.id,
+            description: `Transfer ${token} to ${recipient}`
+        };
+        return [{ intent, expected: { kind: 'transfer', token, to: recipient, amount: amountWei } }];
+    }
+
+    // =========================================================================
+    // Transaction Management
+    // =========================================================================
+
+    /**
+     * Re-broadcast a pending transaction at the same nonce with EIP-1559 fees raised by
+     * `bumpPercent` (at least 10, or the current network fee if higher). Returns the new hash.
+     */
+    async speedUpTransaction(hash: string, bumpPercent = 15): Promise<string> {
+        this.assertLive('speedUpTransaction');
+        const sent = await this.txs.speedUp(hash as `0x${string}`, bumpPercent);
+        this.log(`Replacement sent: ${sent.hash} (nonce ${sent.nonce}).`);
+        return sent.hash;
+    }
+
+    /** Replace a pending transaction with a 0-value self transfer at the same nonce. Returns the new hash. */
+    async cancelTransaction(hash: string, bumpPercent = 15): Promise<string> {
+        this.assertLive('cancelTransaction');
+        const sent = await this.txs.cancel(hash as `0x${string}`, bumpPercent);
+        this.log(`Cancellation sent: ${sent.hash} (nonce ${sent.nonce}).`);
+        return sent.hash;
+    }
+
+    /** Simulate speedUpTransaction: the replacement's gas and cost at the bumped fees, without sending. */
+    async simulateSpeedUpTransaction(hash: string, bumpPercent = 15): Promise<SimulationResult> {
+        this.assertLive('simulateSpeedUpTransaction');
+        return this.simulateReplacement(hash as `0x${string}`, bumpPercent, false);
+    }
+
+    /** Simulate cancelTransaction: the self transfer's gas and cost at the bumped fees, without sending. */
+    async simulateCancelTransaction(hash: string, bumpPercent = 15): Promise<SimulationResult> {
+        this.assertLive('simulateCancelTransaction');
+        return this.simulateReplacement(hash as `0x${string}`, bumpPercent, true);
+    }
+
+    private async simulateReplacement(hash: `0x${string}`, bumpPercent: number, cancel: boolean): Promise<SimulationResult> {
+        const [{ request, fees }, { baseFeePerGas }, ethPrice] = await Promise.all([
+            this.txs.prepareReplacement(hash, bumpPercent, cancel),
+            this.txs.fees(),
+            this.ethPriceUsdc()
+        ]);
+        // A replacement keeps the original gas limit; the estimate still surfaces a revert.
+        const estimated = await this.txs.estimateGas(request);
+        return this.priceSimulation([{
+            description: cancel ? `Cancel ${hash}` : `Speed up ${hash}`,
+            to: request.to,
+            gas: request.gas ?? estimated,
+            simulated: true,
+            ...fees
+        }], baseFeePerGas, ethPrice);
+    }
+
+    /**
+     * Drop the locally tracked nonce so the next transaction re-reads it from the node.
+     * Needed only when the same wallet also sends transactions outside this SDK instance.
+     */
+    resetNonce(): void {
+        this.txs.resetNonce();
+    }
+
+    // =========================================================================
+    // Export and Broadcast
+    // =========================================================================
+
+    /** Safe{Wallet} Transaction Builder batch executing `intents` from `safeAddress`. */
+    exportSafeBatch(intents: TransactionIntent[], safeAddress: string, name?: string): SafeTransactionBatch {
+        return toSafeTransactionBatch(intents, { chainId: this.chain.id, safeAddress, name });
+    }
+
+    /**
+     * Unsigned EIP-1559 transactions for `from` (default: the signer) to sign offline:
+     * sequential nonces from its pending count, simulated gas limits and current fees (caps applied).
+     */
+    async exportUnsignedTransactions(intents: TransactionIntent[], options: { from?: string } = {}): Promise<UnsignedTransactionBundle> {
+        const from = (options.from ?? await this.getAddress()) as `0x${string}`;
+        const [nonce, limits, fees] = await Promise.all([
+            this.publicClient.getTransactionCount({ address: from, blockTag: 'pending' }),
+            this.intentGas(intents, from),
+            this.txs.fees()
+        ]);
+        const bounded = limits.flatMap((limit, i) => limit.simulated ? [] : [i]);
+        if (bounded.length) {
+            this.log(`RPC cannot simulate the batch (no eth_simulateV1); steps ${bounded.join(', ')} use pipelineGasLimit (${this.pipelineGasLimit}) unsimulated.`);
+        }
+        return toUnsignedTransactions(intents, {
+            chainId: this.chain.id,
+            from,
+            nonce,
+            gas: limits.map((limit) => limit.gas),
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas
         });
-        return this.executeIntent(migrateIntent);
+    }
+
+    /** Decode signed raw transactions for this chain, with their senders and fees. */
+    private async decodeSignedTransactions(signed: `0x${string}`[]) {
+        const raws = parseSignedTransactions(signed);
+        return Promise.all(raws.map(async (raw, i) => {
+            let tx: ReturnType<typeof parseTransaction>;
+            try {
+                tx = parseTransaction(raw);
+            } catch (error: any) {
+                throw new ValidationError('signedTransactions', `Entry ${i} is not a valid signed transaction: ${error.shortMessage ?? error.message}`);
+            }
+            if (tx.chainId !== this.chain.id) {
+                throw new ValidationError('chainId', `Entry ${i} is signed for chain ${tx.chainId}, expected ${this.chain.id}.`);
+            }
+            if (!tx.to || tx.nonce === undefined) {
+                throw new ValidationError('signedTransactions', `Entry ${i} has no recipient or nonce.`);
+            }
+            const from = await recoverTransactionAddress({ serializedTransaction: raw });
+            const maxFeePerGas = tx.maxFeePerGas ?? tx.gasPrice ?? 0n;
+            return {
+                raw,
+                from,
+                nonce: tx.nonce,
+                gas: tx.gas,
+                fees: { maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? maxFeePerGas },
+                request: { to: tx.to, data: tx.data ?? '0x', value: tx.value ?? 0n } as TxRequest
+            };
+        }));
+    }
+
+    /**
+     * Simulate pre-signed raw transactions in order and price them at their own fees, without
+     * sending. Transactions from one sender are simulated as a bundle; otherwise, or without
+     * eth_simulateV1, steps after the first are reported with `simulated: false`.
+     */
+    async simulateSignedTransactions(signed: `0x${string}`[]): Promise<SimulationResult> {
+        this.assertLive('simulateSignedTransactions');
+        const parsed = await this.decodeSignedTransactions(signed);
+        const [first, ...rest] = parsed;
+        const oneSender = rest.every((tx) => tx.from.toLowerCase() === first.from.toLowerCase());
+        const [bundle, { baseFeePerGas }, ethPrice] = await Promise.all([
+            oneSender && rest.length ? this.txs.simulateBundle(parsed.map((tx) => tx.request), first.from) : undefined,
+            this.txs.fees(),
+            this.ethPriceUsdc()
+        ]);
+        const estimates = bundle ?? [await this.txs.estimateGas(first.request, first.from)];
+        return this.priceSimulation(parsed.map((tx, i) => ({
+            description: `Signed tx from ${tx.from} (nonce ${tx.nonce})`,
+            to: tx.request.to,
+            // The signed gas limit is what gets sent; the estimate only has to succeed.
+            gas: tx.gas ?? estimates[i] ?? this.pipelineGasLimit,
+            simulated: i < estimates.length,
+            ...tx.fees
+        })), baseFeePerGas, ethPrice);
+    }
+
+    /**
+     * Send pre-signed raw transactions in order, then wait for each to be mined.
+     * Needs no signer. A reverted tx throws with its reason, like any SDK transaction.
+     */
+    async broadcastSignedTransactions(signed: `0x${string}`[], options: RequestOptions = {}): Promise<BroadcastResult[]> {
+        this.assertLive('broadcastSignedTransactions');
+        const parsed = await this.decodeSignedTransactions(signed);
+
+        const sent: SentTransaction[] = [];
+        for (const tx of parsed) {
+            throwIfAborted(options.signal);
+            let hash: `0x${string}`;
+            try {
+                hash = await this.publicClient.sendRawTransaction({ serializedTransaction: tx.raw });
+            } catch (error) {
+                throw toTransactionError(error);
+            }
+            this.log(`Tx sent: ${hash} (nonce ${tx.nonce}).`);
+            sent.push({ hash, nonce: tx.nonce, from: tx.from, request: tx.request });
+        }
+
+        const results: BroadcastResult[] = [];
+        for (const tx of sent) {
+            const receipt = await this.confirmIntent(tx);
+            results.push({
+                hash: receipt.transactionHash,
+                from: tx.from,
+                nonce: tx.nonce,
+                blockNumber: receipt.blockNumber.toString(),
+                gasUsed: receipt.gasUsed.toString()
+            });
+        }
+        return results;
+    }
+
+    // =========================================================================
+    // Trade Previews
+    // =========================================================================
+
+    private buildPreview(
+        side: 'buy' | 'sell',
+        marketAddress: string,
+        { market, quote, pool, poolImpactBps }: Awaited<ReturnType<MoltmoonSDK['venueQuote']>>,
+        amountIn: bigint,
+        slippageBps: number,
+        options: TradeOptions
+    ): TradePreview & { expectedOutWei: bigint; minAmountOutWei: bigint; pool?: PoolState; token: string } {
+        const [inDecimals, outDecimals] = side === 'buy' ? [6, 18] : [18, 6];
+        const expectedOutWei = parseUnits(String(quote.amountOut), outDecimals);
+        const slippage = this.parseSlippage(slippageBps);
+        const minAmountOutWei = options.minAmountOut !== undefined
+            ? this.parseAmount(options.minAmountOut, outDecimals, 'minAmountOut')
+            : (expectedOutWei * (10_000n - slippage)) / 10_000n;
+
+        // Impact is measured on the gross USDC leg so the fixed sell fee does not count as slippage.
+        const feeWei = parseUnits(String(quote.feePaid || '0'), 6);
+        let impact = poolImpactBps;
+        if (impact === undefined) {
+            const state = curveStateFromMarket(market);
+            impact = side === 'buy'
+                ? quotePriceImpactBps(state, amountIn, expectedOutWei)
+                : quotePriceImpactBps(state, expectedOutWei + feeWei, amountIn);
+        }
+        const venue: TradeVenue = pool ? 'aerodrome' : 'curve';
+
+        return {
+            side,
+            market: marketAddress,
+            venue,
+            amountIn: formatUnits(amountIn, inDecimals),
+            expectedOut: formatUnits(expectedOutWei, outDecimals),
+            minAmountOut: formatUnits(minAmountOutWei, outDecimals),
+            feePaid: formatUnits(feeWei, 6),
+            priceImpactBps: Number(impact),
+            slippageBps,
+            expectedOutWei,
+            minAmountOutWei,
+            pool,
+            token: market.token
+        };
+    }
+
+    private enforcePriceImpact(preview: TradePreview, options: TradeOptions): void {
+        const max = options.maxPriceImpactBps ?? this.maxPriceImpactBps;
+        if (max !== undefined && preview.priceImpactBps > max) {
+            throw new PriceImpactError(preview.priceImpactBps, max);
+        }
+    }
+
+    /** Quote a buy and derive the minimum tokens out the trade will require. Sends nothing. */
+    async previewBuy(marketAddress: string, usdcIn: string, slippageBps = 500, options: TradeOptions = {}): Promise<TradePreview> {
+        const { expectedOutWei, minAmountOutWei, pool, token, ...preview } = await this.quoteBuyPreview(marketAddress, usdcIn, slippageBps, options);
+        return preview;
+    }
+
+    /** Quote a sell and derive the minimum USDC out the trade will require. Sends nothing. */
+    async previewSell(marketAddress: string, tokensIn: string, slippageBps = 500, options: TradeOptions = {}): Promise<TradePreview> {
+        const { expectedOutWei, minAmountOutWei, pool, token, ...preview } = await this.quoteSellPreview(marketAddress, tokensIn, slippageBps, options);
+        return preview;
+    }
+
+    /**
+     * USDC (formatted) a buy must spend to receive at least `tokensOut`, from the
+     * local curve model on a fresh market snapshot (pool reserves once graduated).
+     * The amount is rounded up to whole USDC units, so the buy can receive slightly more
+     * than `tokensOut`: at most what one raw USDC unit buys.
+     */
+    async getUsdcForExactTokens(marketAddress: string, tokensOut: string, options: RequestOptions = {}): Promise<string> {
+        const tokensOutWei = this.parseAmount(tokensOut, 18, 'tokensOut');
+        const market = await this.getMarket(marketAddress, options);
+        const pool = await this.graduatedPool(market);
+        if (!pool) return formatUnits(quoteBuyExactOut(curveStateFromMarket(market), tokensOutWei).amountIn, 6);
+        if (pool.stable) {
+            throw new ValidationError('tokensOut', `Exact-output buys are not supported on stable Aerodrome pools (${pool.pool}).`);
+        }
+        const { reserveIn, reserveOut } = orient(pool, this.trustedContracts.usdc!);
+        return formatUnits(volatileAmountIn(tokensOutWei, reserveIn, reserveOut, pool.feeBps), 6);
+    }
+
+    /** `percent` (0-100, up to 2 decimals) of `account`'s (default: the signer's) token balance, formatted. */
+    async getSellAmountForPercent(tokenAddress: string, percent: number, account?: string): Promise<string> {
+        if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+            throw new ValidationError('percent', `Percent must be in (0, 100]. Got ${percent}.`);
+        }
+        const balance = await this.getBalance(tokenAddress, account ?? await this.getAddress());
+        const amount = (balance * BigInt(Math.round(percent * 100))) / 10_000n;
+        if (amount === 0n) {
+            throw new ValidationError('tokensIn', `No ${tokenAddress} balance to sell.`);
+        }
+        return formatUnits(amount, 18);
+    }
+
+    private async quoteBuyPreview(marketAddress: string, usdcIn: string, slippageBps: number, options: TradeOptions) {
+        const usdcInWei = this.parseAmount(usdcIn, 6, 'usdcIn');
+        const quoted = await this.venueQuote('buy', marketAddress, usdcIn, options);
+        return this.buildPreview('buy', marketAddress, quoted, usdcInWei, slippageBps, options);
+    }
+
+    private async quoteSellPreview(marketAddress: string, tokensIn: string, slippageBps: number, options: TradeOptions) {
+        const tokensInWei = this.parseAmount(tokensIn, 18, 'tokensIn');
+        const quoted = await this.venueQuote('sell', marketAddress, tokensIn, options);
+        return this.buildPreview('sell', marketAddress, quoted, tokensInWei, slippageBps, options);
+    }
+
+    /**
+     * [approve?, swap] through the Aerodrome router for a graduated market. The API only builds
+     * curve intents, so the swap calldata is encoded here and verified like any other step.
+     */
+    private async planSwap(pool: PoolState, tokenIn: `0x${string}`, amountIn: bigint, minAmountOut: bigint, options: PrepareOptions): Promise<PlannedTransaction[]> {
+        const { tokenOut } = orient(pool, tokenIn);
+        const router = AERODROME_ROUTER as `0x${string}`;
+        const recipient = (options.from ?? await this.getAddress()) as `0x${string}`;
+        const approval = await this.planAllowance(tokenIn, router, amountIn, options.from);
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS);
+        const swap: PlannedTransaction = {
+            intent: {
+                to: router,
+                data: encodeSwap({ state: pool, tokenIn, tokenOut, amountIn, minAmountOut, recipient, deadline }),
+                value: '0',
+                chainId: this.chain.id,
+                description: `Swap ${tokenIn} for ${tokenOut} on Aerodrome pool ${pool.pool}`
+            },
+            expected: {
+                kind: 'swap',
+                router,
+                factory: AERODROME_FACTORY as `0x${string}`,
+                stable: pool.stable,
+                tokenIn,
+                tokenOut,
+                amountIn,
+                minAmountOut,
+                recipient
+            }
+        };
+        return approval ? [approval, swap] : [swap];
     }
 
     // =========================================================================
     // Action Methods
     // =========================================================================
 
-    async prepareLaunchToken(params: LaunchParams): Promise<LaunchPreparation> {
-        const { metadataURI, imageUrl } = await this.buildLaunchMetadata(params);
+    /**
+     * What launchToken would upload for `imageFile`, without uploading it. Throws ImageError
+     * when the image breaks the rules and `normalize` (default: config.normalizeImages) is off.
+     */
+    async checkLaunchImage(imageFile: Buffer | string, options: RequestOptions & { normalize?: boolean } = {}): Promise<LaunchImage> {
+        return this.prepareImage(imageFile, options.normalize ?? this.normalizeImages, options);
+    }
+
+    async prepareLaunchToken(params: LaunchParams, options: RequestOptions = {}): Promise<LaunchPreparation> {
+        this.trustedContract('factory'); // before anything is uploaded
+        const { metadataURI, imageUrl } = await this.buildLaunchMetadata(params, options);
         const approveIntent = await this.request<TransactionIntent>('/intent/factory/approve-seed', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ amount: params.seedAmount })
-        });
+        }, options);
         const createIntent = await this.request<TransactionIntent>('/intent/tokens/create', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -336,84 +1400,344 @@ export class MoltmoonSDK {
                 uri: metadataURI,
                 seedAmount: params.seedAmount
             })
-        });
-        return { metadataURI, imageUrl, approveIntent, createIntent };
+        }, options);
+        const prep = { metadataURI, imageUrl, approveIntent, createIntent };
+        this.checkPlan(this.launchSteps(params, prep));
+        return prep;
+    }
+
+    private async planLaunch(params: LaunchParams, options: RequestOptions): Promise<PlannedTransaction[]> {
+        return this.launchSteps(params, await this.prepareLaunchToken(params, options));
+    }
+
+    private launchSteps(params: LaunchParams, prep: LaunchPreparation): PlannedTransaction[] {
+        const seedWei = this.parseAmount(params.seedAmount, 6, 'seedAmount');
+        // Unverified launches (no pinned factory) approve whatever the create intent targets.
+        const factory = this.trustedContract('factory') ?? prep.createIntent.to;
+        return [
+            {
+                intent: prep.approveIntent,
+                expected: { kind: 'approve', token: this.trustedContracts.usdc!, spender: factory, amount: seedWei }
+            },
+            {
+                intent: prep.createIntent,
+                expected: {
+                    kind: 'create',
+                    factory,
+                    name: params.name.trim(),
+                    symbol: params.symbol.trim(),
+                    uri: prep.metadataURI,
+                    seedAmount: seedWei
+                }
+            }
+        ];
     }
 
     /**
      * Launch a new token.
-     * Handles: Image Upload -> Metadata -> Approve Seed -> Create Token
+     * Handles: Image Upload -> Metadata -> Approve Seed -> Create Token -> Decode TokenCreated
+     */
+    async launchToken(params: LaunchParams, options: RequestOptions = {}): Promise<LaunchResult> {
+        // Checked before the image upload: a paper launch has nothing to create.
+        this.assertLive('launchToken');
+        if (params.initialBuyUsdc !== undefined) {
+            this.validateLaunchParams(params);
+            const needed = this.parseAmount(params.seedAmount, 6, 'seedAmount') + this.parseAmount(params.initialBuyUsdc, 6, 'initialBuyUsdc');
+            const balance = await this.getBalance(this.trustedContracts.usdc!, await this.getAddress());
+            if (balance < needed) {
+                throw new ValidationError('initialBuyUsdc', `USDC balance ${formatUnits(balance, 6)} does not cover seed + initial buy (${formatUnits(needed, 6)}).`);
+            }
+        }
+
+        // Factory deployments exceed pipelineGasLimit, so the seed approve is always mined first.
+        const receipts = await this.executePlan(await this.planLaunch(params, options), options.signal, false);
+        const result = this.decodeLaunchReceipt(receipts[receipts.length - 1]);
+        if (params.initialBuyUsdc === undefined) return result;
+
+        // The token exists from here on, so a failed creator buy is reported rather than thrown.
+        try {
+            result.initialBuy = await this.initialBuy(result, params.initialBuyUsdc, params.initialBuySlippageBps ?? 500, options);
+        } catch (error) {
+            result.initialBuyError = {
+                code: error instanceof MoltmoonError ? error.code : 'UNKNOWN_ERROR',
+                message: error instanceof Error ? error.message : String(error)
+            };
+        }
+        return result;
+    }
+
+    /**
+     * Creator buy on a market created moments ago. The V2 factory has no create-and-buy entry
+     * point and the market address is only known once the create is mined, so the approve and
+     * buy are sent back to back right after it, leaving the smallest window the chain allows.
+     * The seed approve cannot cover the buy: the market, not the factory, pulls its USDC.
      */
-    async launchToken(params: LaunchParams): Promise<{ hash: string, tokenAddress?: string }> {
-        const prep = await this.prepareLaunchToken(params);
-        await this.executeIntent(prep.approveIntent);
-        const createIntent = prep.createIntent;
-        const hash = await this.executeIntent(createIntent);
+    private async initialBuy(launch: LaunchResult, usdcIn: string, slippageBps: number, options: RequestOptions): Promise<InitialBuyResult> {
+        const { marketAddress, tokenAddress } = launch;
+        // The API may take a moment to index the new market before it can quote it.
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await this.getMarket(marketAddress, options);
+                break;
+            } catch (error) {
+                if (!(error instanceof ApiError && error.status === 404) || attempt >= 10) throw error;
+                await sleep(1_000, options.signal);
+            }
+        }
 
-        // Determining token address would require decoding logs, 
-        // for now we return the hash. The consumer can poll getTokens().
-        return { hash };
+        const owner = await this.getAddress();
+        const before = await this.getBalance(tokenAddress, owner);
+        const steps = await this.planBuy(marketAddress, usdcIn, slippageBps, options);
+        const receipts = await this.executePlan(steps, options.signal, true);
+        const receipt = receipts[receipts.length - 1];
+        const [bought] = parseEventLogs({ abi: marketAbi, eventName: 'Buy', logs: receipt.logs })
+            .filter((log) => log.address.toLowerCase() === marketAddress.toLowerCase());
+        const tokensOut = bought ? bought.args.tokensOut : (await this.getBalance(tokenAddress, owner)) - before;
+        return {
+            hash: receipt.transactionHash,
+            usdcIn: bought ? formatUnits(bought.args.usdcIn, 6) : usdcIn,
+            tokensOut: formatUnits(tokensOut, 18),
+            tokensOutRaw: tokensOut.toString(),
+            blockNumber: receipt.blockNumber.toString()
+        };
     }
 
     /**
-     * Buy Token.
-     * Handles: Approve USDC -> Buy
+     * Simulate the seed approve + create and estimate their gas cost. Uploads the image like
+     * prepareLaunchToken. An initialBuyUsdc is not included: its market does not exist yet.
      */
-    async buy(marketAddress: string, usdcIn: string, slippageBps = 500): Promise<string> {
-        const usdcInWei = parseUnits(String(usdcIn), 6);
-        let approveWei = usdcInWei;
+    async simulateLaunchToken(params: LaunchParams, options: RequestOptions = {}): Promise<SimulationResult> {
+        return this.simulatePlan(await this.planLaunch(params, options));
+    }
 
-        // Some market implementations pull more than the nominal input (e.g., fee-inclusive transfer).
-        // Approve quote-aware amount with a small cushion to avoid allowance reverts.
-        try {
-            const quote = await this.getQuoteBuy(marketAddress, usdcIn);
-            const feeWei = parseUnits(String(quote.feePaid || '0'), 6);
-            approveWei = usdcInWei + feeWei;
-        } catch {
-            // If quote lookup fails, keep using usdcIn as baseline.
-            approveWei = usdcInWei;
+    private async planBuy(marketAddress: string, usdcIn: string, slippageBps: number, options: TradeOptions & PrepareOptions): Promise<PlannedTransaction[]> {
+        const usdcInWei = this.parseAmount(usdcIn, 6, 'usdcIn');
+        const preview = await this.quoteBuyPreview(marketAddress, usdcIn, slippageBps, options);
+        this.enforcePriceImpact(preview, options);
+        if (preview.pool) {
+            return this.planSwap(preview.pool, this.trustedContracts.usdc!, usdcInWei, preview.minAmountOutWei, options);
         }
-        const cushionWei = usdcInWei / 10n; // +10%
-        approveWei += cushionWei > 0n ? cushionWei : 1n;
-        const approveAmount = formatUnits(approveWei, 6);
 
-        // 1. Approve USDC
-        const approveIntent = await this.request<TransactionIntent>(`/intent/markets/${marketAddress}/approve`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ amount: approveAmount })
-        });
-        await this.executeIntent(approveIntent);
+        // Some market implementations pull more than the nominal input (e.g., fee-inclusive transfer),
+        // so require the quoted fee on top.
+        const approveWei = usdcInWei + parseUnits(preview.feePaid, 6);
+
+        // 1. Approve USDC (skipped when allowance already covers it)
+        const approval = await this.planAllowance(this.trustedContracts.usdc!, marketAddress as `0x${string}`, approveWei, options.from);
 
         // 2. Buy
         const buyIntent = await this.request<TransactionIntent>(`/intent/markets/${marketAddress}/buy`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ usdcIn, slippageBps })
-        });
-        return this.executeIntent(buyIntent);
+        }, options);
+        const buy: PlannedTransaction = {
+            intent: buyIntent,
+            expected: {
+                kind: 'buy',
+                market: marketAddress as `0x${string}`,
+                usdcIn: usdcInWei,
+                minTokensOut: preview.minAmountOutWei
+            }
+        };
+        return approval ? [approval, buy] : [buy];
     }
 
     /**
-     * Sell Token.
-     * Handles: Approve Token -> Sell
+     * Buy Token.
+     * Handles: Quote + impact check -> Allowance check -> Approve USDC (if short) -> Buy (min out verified)
      */
-    async sell(marketAddress: string, tokensIn: string, tokenAddress: string, slippageBps = 500): Promise<string> {
-        // 1. Approve Token
-        // API expects: POST /intent/tokens/:token/approve { spender: market, amount }
-        const approveIntent = await this.request<TransactionIntent>(`/intent/tokens/${tokenAddress}/approve`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ spender: marketAddress, amount: tokensIn })
-        });
-        await this.executeIntent(approveIntent);
+    async buy(marketAddress: string, usdcIn: string, slippageBps = 500, options: TradeOptions = {}): Promise<string> {
+        if (this.paperConfig) return this.paperTrade('buy', marketAddress, usdcIn, undefined, slippageBps, options);
+        return this.executePlanHash(await this.planBuy(marketAddress, usdcIn, slippageBps, options), options.signal);
+    }
+
+    /** Run every check `buy` does and simulate the approve + buy without sending. */
+    async simulateBuy(marketAddress: string, usdcIn: string, slippageBps = 500, options: TradeOptions = {}): Promise<SimulationResult> {
+        this.assertLive('simulateBuy');
+        return this.simulatePlan(await this.planBuy(marketAddress, usdcIn, slippageBps, options));
+    }
+
+    /** Verified [approve?, buy] intents for `options.from` (default: the signer), unsigned. */
+    async prepareBuy(marketAddress: string, usdcIn: string, slippageBps = 500, options: TradeOptions & PrepareOptions = {}): Promise<TransactionIntent[]> {
+        this.assertLive('prepareBuy');
+        return this.checkPlan(await this.planBuy(marketAddress, usdcIn, slippageBps, options));
+    }
+
+    /**
+     * Buy exactly `tokensOut` (or slightly more) spending at most `maxUsdcIn`.
+     * The USDC input is solved from the curve and the trade is pinned with minAmountOut = tokensOut.
+     */
+    async buyExactTokens(marketAddress: string, tokensOut: string, maxUsdcIn: string, options: TradeOptions = {}): Promise<string> {
+        const maxWei = this.parseAmount(maxUsdcIn, 6, 'maxUsdcIn');
+        const usdcIn = await this.getUsdcForExactTokens(marketAddress, tokensOut, options);
+        if (parseUnits(usdcIn, 6) > maxWei) {
+            throw new ValidationError('maxUsdcIn', `Buying ${tokensOut} tokens costs ${usdcIn} USDC, above maxUsdcIn ${maxUsdcIn}.`);
+        }
+        // Zero API slippage keeps the encoded floor at the full quote, which is >= tokensOut.
+        return this.buy(marketAddress, usdcIn, 0, { ...options, minAmountOut: tokensOut });
+    }
+
+    /** Sell the signer's entire balance of `tokenAddress`. */
+    async sellAll(marketAddress: string, tokenAddress: string, slippageBps = 500, options: TradeOptions = {}): Promise<string> {
+        return this.sellPercent(marketAddress, tokenAddress, 100, slippageBps, options);
+    }
+
+    /** Sell `percent` (0-100) of the signer's balance of `tokenAddress`. */
+    async sellPercent(marketAddress: string, tokenAddress: string, percent: number, slippageBps = 500, options: TradeOptions = {}): Promise<string> {
+        const tokensIn = await this.getSellAmountForPercent(tokenAddress, percent);
+        return this.sell(marketAddress, tokensIn, tokenAddress, slippageBps, options);
+    }
+
+    private async planSell(marketAddress: string, tokensIn: string, tokenAddress: string, slippageBps: number, options: TradeOptions & PrepareOptions): Promise<PlannedTransaction[]> {
+        const tokensInWei = this.parseAmount(tokensIn, 18, 'tokensIn');
+        const preview = await this.quoteSellPreview(marketAddress, tokensIn, slippageBps, options);
+        this.enforcePriceImpact(preview, options);
+        if (preview.pool) {
+            const { tokenOut: token } = orient(preview.pool, this.trustedContracts.usdc!);
+            if (token.toLowerCase() !== tokenAddress.toLowerCase()) {
+                throw new ValidationError('tokenAddress', `Market ${marketAddress} trades ${token}, not ${tokenAddress}.`);
+            }
+            return this.planSwap(preview.pool, token, tokensInWei, preview.minAmountOutWei, options);
+        }
+
+        // 1. Approve Token (skipped when allowance already covers it)
+        const approval = await this.planAllowance(tokenAddress as `0x${string}`, marketAddress as `0x${string}`, tokensInWei, options.from);
 
         // 2. Sell
         const sellIntent = await this.request<TransactionIntent>(`/intent/markets/${marketAddress}/sell`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ tokensIn, slippageBps })
-        });
-        return this.executeIntent(sellIntent);
+        }, options);
+        const sell: PlannedTransaction = {
+            intent: sellIntent,
+            expected: {
+                kind: 'sell',
+                market: marketAddress as `0x${string}`,
+                tokensIn: tokensInWei,
+                minUsdcOut: preview.minAmountOutWei
+            }
+        };
+        return approval ? [approval, sell] : [sell];
+    }
+
+    /**
+     * Sell Token.
+     * Handles: Quote + impact check -> Allowance check -> Approve Token (if short) -> Sell (min out verified)
+     */
+    async sell(marketAddress: string, tokensIn: string, tokenAddress: string, slippageBps = 500, options: TradeOptions = {}): Promise<string> {
+        if (this.paperConfig) return this.paperTrade('sell', marketAddress, tokensIn, tokenAddress, slippageBps, options);
+        return this.executePlanHash(await this.planSell(marketAddress, tokensIn, tokenAddress, slippageBps, options), options.signal);
+    }
+
+    /** Run every check `sell` does and simulate the approve + sell without sending. */
+    async simulateSell(marketAddress: string, tokensIn: string, tokenAddress: string, slippageBps = 500, options: TradeOptions = {}): Promise<SimulationResult> {
+        this.assertLive('simulateSell');
+        return this.simulatePlan(await this.planSell(marketAddress, tokensIn, tokenAddress, slippageBps, options));
+    }
+
+    /** Verified [approve?, sell] intents for `options.from` (default: the signer), unsigned. */
+    async prepareSell(marketAddress: string, tokensIn: string, tokenAddress: string, slippageBps = 500, options: TradeOptions & PrepareOptions = {}): Promise<TransactionIntent[]> {
+        this.assertLive('prepareSell');
+        return this.checkPlan(await this.planSell(marketAddress, tokensIn, tokenAddress, slippageBps, options));
+    }
+
+    // =========================================================================
+    // Paper Trading
+    // =========================================================================
+
+    private assertLive(action: string): void {
+        if (this.paperConfig) throw new PaperModeError(action);
+    }
+
+    private ledger(): Promise<PaperLedger> {
+        if (!this.paperConfig) {
+            throw new ValidationError('mode', 'The paper ledger is only available on an SDK created with mode: \'paper\'.');
+        }
+        this.paperLedger ??= PaperLedger.open(this.paperConfig);
+        return this.paperLedger;
+    }
+
+    /** The paper ledger when `account` is its owner, so other accounts still read on-chain. */
+    private async paperLedgerFor(account: string): Promise<PaperLedger | undefined> {
+        if (!this.paperConfig) return undefined;
+        const ledger = await this.ledger();
+        return ledger.account.toLowerCase() === account.toLowerCase() ? ledger : undefined;
+    }
+
+    /** Fill a buy or sell against the ledger at the quote, after the same impact and floor checks as a live trade. */
+    private async paperTrade(
+        side: 'buy' | 'sell',
+        marketAddress: string,
+        amountIn: string,
+        tokenAddress: string | undefined,
+        slippageBps: number,
+        options: TradeOptions
+    ): Promise<`0x${string}`> {
+        const preview = side === 'buy'
+            ? await this.quoteBuyPreview(marketAddress, amountIn, slippageBps, options)
+            : await this.quoteSellPreview(marketAddress, amountIn, slippageBps, options);
+        this.enforcePriceImpact(preview, options);
+        if (preview.expectedOutWei < preview.minAmountOutWei) {
+            throw new PaperTradeError('PAPER_SLIPPAGE_EXCEEDED', `paper fill of ${preview.expectedOut} is below minAmountOut ${preview.minAmountOut}`);
+        }
+        if (tokenAddress && tokenAddress.toLowerCase() !== preview.token.toLowerCase()) {
+            throw new ValidationError('tokenAddress', `Market ${marketAddress} trades ${preview.token}, not ${tokenAddress}.`);
+        }
+
+        const ledger = await this.ledger();
+        const fill = {
+            market: marketAddress,
+            token: preview.token,
+            venue: preview.venue,
+            feePaid: parseUnits(preview.feePaid, 6)
+        };
+        const trade = side === 'buy'
+            ? await ledger.recordBuy({ ...fill, usdc: parseUnits(preview.amountIn, 6), tokens: preview.expectedOutWei })
+            : await ledger.recordSell({ ...fill, usdc: preview.expectedOutWei, tokens: parseUnits(preview.amountIn, 18) });
+        return trade.hash;
+    }
+
+    /** Ledger balances plus each open position valued at its current sell quote (net of the fee). Paper mode only. */
+    async getPaperPnl(options: RequestOptions = {}): Promise<PaperPnl> {
+        const state = (await this.ledger()).export();
+        let value = 0n;
+        let unrealized = 0n;
+        const positions = await Promise.all(Object.values(state.positions).map(async (position): Promise<PaperPositionPnl> => {
+            if (parseUnits(position.balance, 18) === 0n) return { ...position, valueUsdc: '0', unrealizedPnl: '0' };
+            try {
+                const { quote } = await this.venueQuote('sell', position.market, position.balance, options);
+                const valueWei = parseUnits(quote.amountOut, 6);
+                const pnl = valueWei - parseUnits(position.costBasis, 6);
+                value += valueWei;
+                unrealized += pnl;
+                return { ...position, valueUsdc: formatUnits(valueWei, 6), unrealizedPnl: formatUnits(pnl, 6) };
+            } catch (error) {
+                if (!(error instanceof ApiError) && !(error instanceof TransactionError)) throw error;
+                return { ...position, valueUsdc: null, unrealizedPnl: null };
+            }
+        }));
+        const equity = parseUnits(state.usdc, 6) + value;
+        return {
+            account: state.account,
+            startingUsdc: state.startingUsdc,
+            usdc: state.usdc,
+            equity: formatUnits(equity, 6),
+            realizedPnl: state.realizedPnl,
+            unrealizedPnl: formatUnits(unrealized, 6),
+            totalPnl: formatUnits(equity - parseUnits(state.startingUsdc, 6), 6),
+            positions
+        };
+    }
+
+    /** The whole ledger (balances, positions, every paper trade), in its state-file format. Paper mode only. */
+    async exportPaperLedger(): Promise<PaperLedgerState> {
+        return (await this.ledger()).export();
+    }
+
+    /** Discard all paper positions and trades and start again with `usdc` (default: the configured amount, else 1000). */
+    async resetPaperLedger(usdc?: string): Promise<void> {
+        await (await this.ledger()).reset({ usdc: usdc ?? this.paperConfig!.usdc });
     }
 }
@@ -0,0 +1,91 @@
+import { createDecipheriv, pbkdf2, scrypt, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { keccak256, toHex } from 'viem';
+import { ValidationError } from './errors';
+
+// Web3 Secret Storage (V3) keystore files, as written by geth, foundry (`cast wallet`) and most wallets.
+
+const pbkdf2Async = promisify(pbkdf2);
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: object) => Promise<Buffer>;
+
+interface KeystoreV3 {
+    version: number;
+    address?: string;
+    crypto: {
+        cipher: string;
+        cipherparams: { iv: string };
+        ciphertext: string;
+        kdf: 'scrypt' | 'pbkdf2';
+        kdfparams: {
+            dklen: number;
+            salt: string;
+            n?: number;
+            r?: number;
+            p?: number;
+            c?: number;
+            prf?: string;
+        };
+        mac: string;
+    };
+}
+
+async function deriveKey(password: string, crypto: KeystoreV3['crypto']): Promise<Buffer> {
+    const { kdf, kdfparams } = crypto;
+    const salt = Buffer.from(kdfparams.salt, 'hex');
+    if (kdf === 'scrypt') {
+        const { n = 0, r = 0, p = 0 } = kdfparams;
+        try {
+            return await scryptAsync(password, salt, kdfparams.dklen, { N: n, r, p, maxmem: 256 * n * r });
+        } catch (error: any) {
+            throw new ValidationError('keystore', `Unsupported keystore scrypt parameters (n=${n}, r=${r}, p=${p}): ${error.message}`);
+        }
+    }
+    if (kdf === 'pbkdf2') {
+        if (kdfparams.prf !== 'hmac-sha256') {
+            throw new ValidationError('keystore', `Unsupported keystore pbkdf2 prf: ${kdfparams.prf}`);
+        }
+        return pbkdf2Async(password, salt, kdfparams.c ?? 0, kdfparams.dklen, 'sha256');
+    }
+    throw new ValidationError('keystore', `Unsupported keystore kdf: ${kdf}`);
+}
+
+/** Decrypt a V3 keystore JSON string into a 0x-prefixed private key. */
+export async function decryptKeystore(json: string, password: string): Promise<`0x${string}`> {
+    let keystore: KeystoreV3;
+    try {
+        keystore = JSON.parse(json);
+    } catch {
+        throw new ValidationError('keystore', 'Keystore file is not valid JSON.');
+    }
+    // Some tools write `Crypto` instead of `crypto`.
+    const crypto = keystore.crypto ?? (keystore as any).Crypto;
+    if (keystore.version !== 3 || !crypto) {
+        throw new ValidationError('keystore', 'Only V3 keystore files are supported.');
+    }
+    if (crypto.cipher !== 'aes-128-ctr') {
+        throw new ValidationError('keystore', `Unsupported keystore cipher: ${crypto.cipher}`);
+    }
+
+    const derived = await deriveKey(password, crypto);
+    const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+    const mac = Buffer.from(keccak256(Buffer.concat([derived.subarray(16, 32), ciphertext])).slice(2), 'hex');
+    const expectedMac = Buffer.from(crypto.mac, 'hex');
+    if (mac.length !== expectedMac.length || !timingSafeEqual(mac, expectedMac)) {
+        throw new ValidationError('keystore', 'Incorrect keystore password.');
+    }
+
+    const decipher = createDecipheriv('aes-128-ctr', derived.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+    const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    return toHex(privateKey);
+}
+
+export async function readKeystore(path: string, password: string): Promise<`0x${string}`> {
+    let json: string;
+    try {
+        json = await readFile(path, 'utf8');
+    } catch (error: any) {
+        throw new ValidationError('keystore', `Could not read keystore file ${path}: ${error.message}`);
+    }
+    return decryptKeystore(json, password);
+}
@@ -0,0 +1,175 @@
+import { readFile, readdir, rename, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { ValidationError } from './errors';
+import type { LaunchBatchEntry, LaunchBatchState, LaunchParams } from './types';
+
+// Launch parameters from JSON/YAML files, and the state file that makes batch launches resumable.
+
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const SOCIALS = ['website', 'twitter', 'telegram', 'discord'] as const;
+
+// Config keys and the LaunchParams field each maps to. Anything else is rejected, so typos surface.
+const FIELDS: Record<string, { field: keyof LaunchParams; type: 'string' | 'amount' | 'integer' | 'boolean' | 'socials' }> = {
+    name: { field: 'name', type: 'string' },
+    symbol: { field: 'symbol', type: 'string' },
+    description: { field: 'description', type: 'string' },
+    seedAmount: { field: 'seedAmount', type: 'amount' },
+    seed: { field: 'seedAmount', type: 'amount' },
+    initialBuyUsdc: { field: 'initialBuyUsdc', type: 'amount' },
+    devBuy: { field: 'initialBuyUsdc', type: 'amount' },
+    initialBuySlippageBps: { field: 'initialBuySlippageBps', type: 'integer' },
+    image: { field: 'imageFile', type: 'string' },
+    imageFile: { field: 'imageFile', type: 'string' },
+    normalizeImage: { field: 'normalizeImage', type: 'boolean' },
+    socials: { field: 'socials', type: 'socials' }
+};
+
+/**
+ * LaunchParams from a parsed config object. A relative image path is resolved against
+ * `baseDir` (the config file's directory). `seedAmount` defaults to 20. Errors are prefixed with `source`.
+ */
+export function parseLaunchConfig(value: unknown, baseDir = process.cwd(), source = 'launch config'): LaunchParams {
+    const at = source ? `${source}: ` : '';
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError('config', `${at}expected an object with name, symbol, description.`);
+    }
+    const params: Record<string, unknown> = { seedAmount: '20' };
+    for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+        const spec = FIELDS[key];
+        if (!spec) throw new ValidationError(key, `${at}unknown field "${key}".`);
+        if (raw === undefined || raw === null) continue;
+        switch (spec.type) {
+            case 'string':
+                if (typeof raw !== 'string') throw new ValidationError(key, `${at}"${key}" must be a string.`);
+                params[spec.field] = raw;
+                break;
+            case 'amount':
+                if (typeof raw !== 'string' && typeof raw !== 'number') {
+                    throw new ValidationError(key, `${at}"${key}" must be a USDC amount.`);
+                }
+                params[spec.field] = String(raw);
+                break;
+            case 'integer':
+                if (!Number.isInteger(raw)) throw new ValidationError(key, `${at}"${key}" must be an integer.`);
+                params[spec.field] = raw;
+                break;
+            case 'boolean':
+                if (typeof raw !== 'boolean') throw new ValidationError(key, `${at}"${key}" must be true or false.`);
+                params[spec.field] = raw;
+                break;
+            case 'socials': {
+                if (typeof raw !== 'object' || Array.isArray(raw)) {
+                    throw new ValidationError(key, `${at}"socials" must be an object.`);
+                }
+                const socials: Record<string, string> = {};
+                for (const [name, url] of Object.entries(raw as Record<string, unknown>)) {
+                    if (!(SOCIALS as readonly string[]).includes(name)) {
+                        throw new ValidationError(name, `${at}unknown social "${name}". Use ${SOCIALS.join(', ')}.`);
+                    }
+                    if (url === undefined || url === null || url === '') continue;
+                    if (typeof url !== 'string') throw new ValidationError(name, `${at}"socials.${name}" must be a URL string.`);
+                    socials[name] = url;
+                }
+                params.socials = socials;
+                break;
+            }
+        }
+    }
+    const image = params.imageFile as string | undefined;
+    if (image && !/^(data:|[a-z][a-z0-9+.-]*:\/\/)/i.test(image)) {
+        params.imageFile = path.resolve(baseDir, image);
+    }
+    return params as unknown as LaunchParams;
+}
+
+/** Parsed contents of a .json, .yaml or .yml file; read and parse failures are ValidationErrors. */
+export async function readConfigFile(file: string): Promise<unknown> {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (error: any) {
+        throw new ValidationError('config', `Could not read ${file}: ${error.message}`);
+    }
+    try {
+        return path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error: any) {
+        throw new ValidationError('config', `${file}: ${error.message}`);
+    }
+}
+
+/** LaunchParams from one .json, .yaml or .yml file. */
+export async function loadLaunchConfig(file: string): Promise<LaunchParams> {
+    return parseLaunchConfig(await readConfigFile(file), path.dirname(path.resolve(file)), file);
+}
+
+/**
+ * Every launch in `target`: a directory of config files (one launch each, in name order), or a
+ * file holding one launch, an array, or `{ launches: [...] }`. Entries that cannot be parsed
+ * carry `error` instead of `params`, so a batch can report every problem at once.
+ */
+export async function loadLaunchBatch(target: string): Promise<LaunchBatchEntry[]> {
+    const info = await stat(target).catch(() => undefined);
+    if (!info) throw new ValidationError('config', `${target} does not exist.`);
+
+    if (info.isDirectory()) {
+        const files = (await readdir(target))
+            .filter((name) => CONFIG_EXTENSIONS.includes(path.extname(name).toLowerCase()) && !name.startsWith('.'))
+            .sort();
+        const entries: LaunchBatchEntry[] = [];
+        for (const name of files) {
+            const file = path.join(target, name);
+            try {
+                entries.push({ id: name, source: file, params: parseLaunchConfig(await readConfigFile(file), target, '') });
+            } catch (error) {
+                entries.push({ id: name, source: file, error: (error as Error).message });
+            }
+        }
+        return entries;
+    }
+
+    const json = await readConfigFile(target);
+    const list = Array.isArray(json) ? json : Array.isArray((json as any)?.launches) ? (json as any).launches : [json];
+    const baseDir = path.dirname(path.resolve(target));
+    const name = path.basename(target);
+    return list.map((item: unknown, i: number): LaunchBatchEntry => {
+        const id = list.length === 1 && !Array.isArray(json) ? name : `${name}#${i + 1}`;
+        try {
+            return { id, source: target, params: parseLaunchConfig(item, baseDir, '') };
+        } catch (error) {
+            return { id, source: target, error: (error as Error).message };
+        }
+    });
+}
+
+/** Default state file: `.launch-state.json` inside a batch directory, `<file>.state.json` next to a batch file. */
+export async function defaultLaunchStateFile(target: string): Promise<string> {
+    const info = await stat(target).catch(() => undefined);
+    return info?.isDirectory() ? path.join(target, '.launch-state.json') : `${target}.state.json`;
+}
+
+export async function readLaunchBatchState(file: string): Promise<LaunchBatchState> {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return { version: 1, entries: {} };
+        throw error;
+    }
+    const state = JSON.parse(text);
+    if (state?.version !== 1 || typeof state.entries !== 'object') {
+        throw new ValidationError('state', `${file} is not a launch-batch state file.`);
+    }
+    return state;
+}
+
+/** Write via a temp file and rename, so an interrupted run never leaves a truncated state file. */
+export async function writeStateFile(file: string, state: unknown): Promise<void> {
+    const tmp = `${file}.tmp`;
+    await writeFile(tmp, `${JSON.stringify(state, null, 2)}\n`);
+    await rename(tmp, file);
+}
+
+export async function writeLaunchBatchState(file: string, state: LaunchBatchState): Promise<void> {
+    await writeStateFile(file, state);
+}
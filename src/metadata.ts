@@ -0,0 +1,59 @@
+import { MetadataError } from './errors';
+import type { TokenMetadata } from './types';
+
+// Token metadata URIs as stored on-chain: data: (what launchToken writes), https: and ipfs:.
+
+export const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+const STRING_FIELDS = ['description', 'image', 'website', 'twitter', 'telegram', 'discord'] as const;
+
+/** `ipfs://<cid>/path` (or `ipfs://ipfs/<cid>`) as a URL on `gateway`; other URIs unchanged. */
+export function ipfsToGateway(uri: string, gateway = DEFAULT_IPFS_GATEWAY): string {
+    if (!uri.startsWith('ipfs://')) return uri;
+    const base = gateway.endsWith('/') ? gateway : `${gateway}/`;
+    return `${base}${uri.slice('ipfs://'.length).replace(/^ipfs\//, '')}`;
+}
+
+/** Decoded body of a `data:` URI (base64, or percent-encoded when not marked base64). */
+export function decodeDataUri(uri: string): string {
+    const match = /^data:([^,]*),(.*)$/s.exec(uri);
+    if (!match) throw new MetadataError(uri, 'Malformed data URI.');
+    try {
+        return /;base64$/i.test(match[1])
+            ? Buffer.from(match[2], 'base64').toString('utf8')
+            : decodeURIComponent(match[2]);
+    } catch (error) {
+        throw new MetadataError(uri, 'Could not decode data URI.', { cause: error });
+    }
+}
+
+/** Check a decoded metadata document against TokenMetadata. Unknown fields are dropped. */
+export function parseTokenMetadata(value: unknown, uri: string, gateway = DEFAULT_IPFS_GATEWAY): TokenMetadata {
+    let json = value;
+    if (typeof json === 'string') {
+        try {
+            json = JSON.parse(json);
+        } catch (error) {
+            throw new MetadataError(uri, 'Token metadata is not valid JSON.', { cause: error });
+        }
+    }
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new MetadataError(uri, 'Token metadata must be a JSON object.');
+    }
+    const doc = json as Record<string, unknown>;
+    for (const field of ['name', 'symbol']) {
+        if (typeof doc[field] !== 'string' || !(doc[field] as string).trim()) {
+            throw new MetadataError(uri, `Token metadata is missing "${field}".`);
+        }
+    }
+    const metadata: TokenMetadata = { name: doc.name as string, symbol: doc.symbol as string };
+    for (const field of STRING_FIELDS) {
+        const fieldValue = doc[field];
+        if (fieldValue === undefined || fieldValue === null || fieldValue === '') continue;
+        if (typeof fieldValue !== 'string') {
+            throw new MetadataError(uri, `Token metadata field "${field}" must be a string.`);
+        }
+        metadata[field] = field === 'image' ? ipfsToGateway(fieldValue, gateway) : fieldValue;
+    }
+    return metadata;
+}
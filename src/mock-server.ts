@@ -0,0 +1,449 @@
+import { createHash } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { encodeFunctionData, formatUnits, getAddress, keccak256, parseUnits, toHex } from 'viem';
+import { erc20Abi, factoryAbi, marketAbi, migrationAbi, rewardsPoolAbi } from './abis';
+import {
+    applyTrade,
+    CURVE_TOKENS_TOTAL,
+    GRADUATION_BPS,
+    marketCap,
+    quoteBuy,
+    quoteBuyExactOut,
+    quoteSell,
+    TOTAL_SUPPLY,
+    tokensToGraduation,
+    type CurveState
+} from './curve';
+import { filterTokens, sortTokens } from './tokens';
+import type {
+    MarketDetails,
+    MigrationStatus,
+    MockFault,
+    MockRequestRecord,
+    MockServerOptions,
+    MockTokenSeed,
+    QuoteResponse,
+    RewardsEarned,
+    Token,
+    TokenSort,
+    TransactionIntent
+} from './types';
+
+// In-process stand-in for the MoltMoon API: every route the SDK calls, backed by the offline
+// curve model. Intents carry real calldata for the V2 contracts, so they verify and can be sent
+// to an anvil fork of Base. Nothing here touches a chain: intents do not move the curve; use
+// trade() to simulate fills.
+
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const CURSOR = 'mock:';
+const BPS = 10_000n;
+
+/** Deterministic checksummed address for mock contracts and tokens. */
+function mockAddress(label: string): `0x${string}` {
+    return getAddress(`0x${keccak256(toHex(`moltmoon-mock:${label}`)).slice(-40)}`);
+}
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function amount(value: unknown, decimals: number, field: string): bigint {
+    const text = String(value ?? '').trim();
+    if (!/^\d+(\.\d+)?$/.test(text)) throw new HttpError(400, `Invalid ${field}: ${value}`);
+    try {
+        return parseUnits(text, decimals);
+    } catch {
+        throw new HttpError(400, `Invalid ${field}: ${value}`);
+    }
+}
+
+function address(value: string): `0x${string}` {
+    try {
+        return getAddress(value);
+    } catch {
+        throw new HttpError(400, `Invalid address: ${value}`);
+    }
+}
+
+function slippage(value: unknown): bigint {
+    const bps = Number(value ?? 500);
+    if (!Number.isInteger(bps) || bps < 0 || bps > 10_000) throw new HttpError(400, `Invalid slippageBps: ${value}`);
+    return BigInt(bps);
+}
+
+interface MockMarket {
+    token: Token;
+    state: CurveState;
+    virtualBase: bigint;
+    graduated: boolean;
+}
+
+export class MockMoltmoonServer {
+    /** Every request answered, oldest first. */
+    readonly requests: MockRequestRecord[] = [];
+    readonly chainId: number;
+    readonly usdc: `0x${string}`;
+    readonly factory: `0x${string}`;
+    readonly migration: `0x${string}`;
+
+    private server?: Server;
+    private baseUrl?: string;
+    private readonly markets = new Map<string, MockMarket>();
+    private readonly rewards = new Map<string, bigint>();
+    private readonly images = new Map<string, { type: string; bytes: Buffer }>();
+    private migrationStatus: MigrationStatus;
+    private faults: MockFault[] = [];
+
+    constructor(private readonly options: MockServerOptions = {}) {
+        this.chainId = options.chainId ?? 8453;
+        this.usdc = options.usdc ?? BASE_USDC;
+        this.factory = options.factory ?? mockAddress('factory');
+        this.migration = options.migration ?? mockAddress('migration');
+        this.migrationStatus = {
+            migrationContract: this.migration,
+            active: true,
+            oldToken: mockAddress('migration:v1'),
+            newToken: mockAddress('migration:v2'),
+            totalMigrated: '0',
+            totalMigratedRaw: '0',
+            remaining: '1000000000',
+            remainingRaw: (1_000_000_000n * 10n ** 18n).toString(),
+            deadline: Math.floor(Date.now() / 1000) + 30 * 24 * 3600,
+            ...options.migrationStatus
+        };
+        for (const seed of options.tokens ?? []) this.addToken(seed);
+        for (const { pool, account, earned } of options.rewards ?? []) this.setRewards(pool, account, earned);
+    }
+
+    /** Listen and return the base URL to pass as MoltmoonConfig.baseUrl. */
+    async start(): Promise<string> {
+        if (this.baseUrl) return this.baseUrl;
+        const server = createServer((req, res) => void this.handle(req, res));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', resolve);
+        });
+        const { address, port } = server.address() as AddressInfo;
+        this.server = server;
+        this.baseUrl = `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+        return this.baseUrl;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = undefined;
+        this.baseUrl = undefined;
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    get url(): string {
+        if (!this.baseUrl) throw new Error('Mock server is not running; call start() first.');
+        return this.baseUrl;
+    }
+
+    // =========================================================================
+    // State
+    // =========================================================================
+
+    /** List a token with a fresh market, optionally bought up by `raised` USDC. */
+    addToken(seed: MockTokenSeed): Token {
+        const n = this.markets.size;
+        const virtualBase = parseUnits(this.options.virtualBase ?? '5000', 6);
+        const metadata = {
+            name: seed.name,
+            symbol: seed.symbol,
+            description: seed.description ?? `${seed.name} mock token`,
+            ...(seed.image ? { image: seed.image } : {})
+        };
+        const token: Token = {
+            token: mockAddress(`token:${n}:${seed.symbol}`),
+            market: mockAddress(`market:${n}:${seed.symbol}`),
+            name: seed.name,
+            symbol: seed.symbol,
+            uri: seed.uri ?? `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString('base64')}`,
+            totalSupply: TOTAL_SUPPLY.toString(),
+            curveTokens: CURVE_TOKENS_TOTAL.toString(),
+            creator: seed.creator ?? mockAddress('creator'),
+            blockNumber: String(30_000_000 + n),
+            rewardsPool: mockAddress(`rewards:${n}:${seed.symbol}`),
+            seedAmount: seed.seedAmount ?? '20'
+        };
+        const market: MockMarket = {
+            token,
+            virtualBase,
+            graduated: false,
+            state: {
+                baseReserve: virtualBase,
+                tokenReserve: CURVE_TOKENS_TOTAL,
+                sellFeeBps: BigInt(this.options.sellFeeBps ?? 500),
+                curveTokensTotal: CURVE_TOKENS_TOTAL,
+                totalSupply: TOTAL_SUPPLY
+            }
+        };
+        this.markets.set(token.market.toLowerCase(), market);
+        if (seed.graduated) {
+            this.trade(token.market, 'buy', formatUnits(quoteBuyExactOut(market.state, tokensToGraduation(market.state)).amountIn, 6));
+        } else if (seed.raised) {
+            this.trade(token.market, 'buy', seed.raised);
+        }
+        return this.listed(market);
+    }
+
+    /**
+     * Fill a trade against the market's curve, as if someone else's transaction was mined.
+     * `amount` is USDC for buys and tokens for sells. Buys that reach the threshold graduate the market.
+     */
+    trade(marketAddress: string, side: 'buy' | 'sell', value: string): QuoteResponse {
+        const market = this.market(marketAddress);
+        if (market.graduated) throw new HttpError(409, `Market ${marketAddress} has graduated.`);
+        const quote = side === 'buy'
+            ? quoteBuy(market.state, amount(value, 6, 'usdcIn'))
+            : quoteSell(market.state, amount(value, 18, 'tokensIn'));
+        market.state = applyTrade(market.state, side, quote);
+        if (tokensToGraduation(market.state) === 0n) market.graduated = true;
+        return this.quoteResponse(side, quote.amountIn, quote.amountOut, quote.feePaid);
+    }
+
+    setRewards(pool: string, account: string, earned: string): void {
+        this.rewards.set(`${pool.toLowerCase()}:${account.toLowerCase()}`, amount(earned, 6, 'earned'));
+    }
+
+    setMigrationStatus(status: Partial<MigrationStatus>): void {
+        this.migrationStatus = { ...this.migrationStatus, ...status };
+    }
+
+    /** Answer the next matching request(s) with `fault` instead of the normal response. */
+    inject(fault: MockFault): void {
+        this.faults.push({ ...fault, times: fault.times ?? 1 });
+    }
+
+    /** Every listed token with its current raised/market cap/progress, in listing order. */
+    getTokens(): Token[] {
+        return [...this.markets.values()].map((market) => this.listed(market));
+    }
+
+    getMarketDetails(marketAddress: string): MarketDetails {
+        const { token, state, virtualBase, graduated } = this.market(marketAddress);
+        const sold = state.curveTokensTotal - state.tokenReserve;
+        const target = (state.curveTokensTotal * GRADUATION_BPS) / BPS;
+        return {
+            market: token.market,
+            token: token.token,
+            usdc: this.usdc,
+            graduated,
+            curveTokensRemaining: state.tokenReserve.toString(),
+            baseReserveReal: (state.baseReserve - virtualBase).toString(),
+            totalBaseReserve: state.baseReserve.toString(),
+            virtualBase: virtualBase.toString(),
+            liquidityTokens: (state.totalSupply - state.curveTokensTotal).toString(),
+            sellFeeBps: Number(state.sellFeeBps),
+            creator: token.creator,
+            holderRewardsPool: token.rewardsPool!,
+            aerodromePool: null,
+            progressPercent: graduated ? 100 : Math.min(100, Number((sold * 10_000n) / target) / 100)
+        };
+    }
+
+    private market(address: string): MockMarket {
+        const market = this.markets.get(String(address).toLowerCase());
+        if (!market) throw new HttpError(404, `Market ${address} not found`);
+        return market;
+    }
+
+    private listed(market: MockMarket): Token {
+        const details = this.getMarketDetails(market.token.market);
+        return {
+            ...market.token,
+            raised: Number(formatUnits(BigInt(details.baseReserveReal), 6)),
+            marketCap: Number(formatUnits(marketCap(market.state), 6)),
+            graduated: details.graduated,
+            progressPercent: details.progressPercent
+        };
+    }
+
+    private quoteResponse(side: 'buy' | 'sell', amountIn: bigint, amountOut: bigint, feePaid: bigint): QuoteResponse {
+        const [inDecimals, outDecimals] = side === 'buy' ? [6, 18] : [18, 6];
+        return {
+            amountIn: formatUnits(amountIn, inDecimals),
+            amountOut: formatUnits(amountOut, outDecimals),
+            feePaid: formatUnits(feePaid, 6)
+        };
+    }
+
+    private intent(to: `0x${string}`, data: `0x${string}`, description: string): TransactionIntent {
+        return { to, data, value: '0', chainId: this.chainId, description };
+    }
+
+    // =========================================================================
+    // Routes
+    // =========================================================================
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const method = req.method ?? 'GET';
+        const path = req.url ?? '/';
+        let body: unknown;
+        let status = 200;
+        let payload: unknown;
+        let headers: Record<string, string> = {};
+        try {
+            body = method === 'GET' ? undefined : await this.readBody(req);
+            const fault = this.takeFault(method, path);
+            if (fault) {
+                if (fault.delayMs) await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+                status = fault.status ?? 500;
+                payload = fault.body ?? { error: `Injected ${status}` };
+                headers = fault.headers ?? {};
+            } else {
+                const image = this.image(method, path);
+                if (image) {
+                    this.requests.push({ method, path, status });
+                    res.writeHead(200, { 'Content-Type': image.type, 'Content-Length': image.bytes.length });
+                    res.end(image.bytes);
+                    return;
+                }
+                payload = this.route(method, new URL(path, 'http://mock'), body);
+            }
+        } catch (error) {
+            status = error instanceof HttpError ? error.status : 500;
+            payload = { error: (error as Error).message };
+        }
+        this.requests.push({ method, path, body, status });
+        if (res.destroyed) return;
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(payload));
+    }
+
+    private async readBody(req: IncomingMessage): Promise<unknown> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const text = Buffer.concat(chunks).toString('utf8');
+        if (!text) return undefined;
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new HttpError(400, 'Request body is not valid JSON');
+        }
+    }
+
+    private takeFault(method: string, path: string): MockFault | undefined {
+        const index = this.faults.findIndex((fault) =>
+            (!fault.method || fault.method.toUpperCase() === method)
+            && (typeof fault.path === 'string' ? path.split('?')[0] === fault.path : fault.path.test(path)));
+        if (index === -1) return undefined;
+        const fault = this.faults[index];
+        if (--fault.times! <= 0) this.faults.splice(index, 1);
+        return fault;
+    }
+
+    private image(method: string, path: string) {
+        const match = method === 'GET' && /^\/images\/([0-9a-f]+)$/.exec(path);
+        return match ? this.images.get(match[1]) : undefined;
+    }
+
+    private route(method: string, url: URL, body: any): unknown {
+        const parts = url.pathname.split('/').filter(Boolean);
+        const query = url.searchParams;
+        const key = `${method} /${parts.map((part, i) => (i > 0 && /^0x/i.test(part) ? ':address' : part)).join('/')}`;
+
+        switch (key) {
+            case 'GET /tokens': return this.tokenPage(query);
+            case 'GET /markets/:address': return this.getMarketDetails(parts[1]);
+            case 'GET /markets/:address/quote/buy': {
+                const quote = quoteBuy(this.market(parts[1]).state, amount(query.get('usdcIn'), 6, 'usdcIn'));
+                return this.quoteResponse('buy', quote.amountIn, quote.amountOut, quote.feePaid);
+            }
+            case 'GET /markets/:address/quote/sell': {
+                const quote = quoteSell(this.market(parts[1]).state, amount(query.get('tokensIn'), 18, 'tokensIn'));
+                return this.quoteResponse('sell', quote.amountIn, quote.amountOut, quote.feePaid);
+            }
+            case 'POST /intent/markets/:address/buy': return this.tradeIntent('buy', parts[2], body);
+            case 'POST /intent/markets/:address/sell': return this.tradeIntent('sell', parts[2], body);
+            case 'POST /intent/factory/approve-seed': {
+                const seed = amount(body?.amount, 6, 'amount');
+                const data = encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [this.factory, seed] });
+                return this.intent(this.usdc, data, `Approve ${body.amount} USDC seed for the factory`);
+            }
+            case 'POST /intent/tokens/create': {
+                const { name, symbol, uri } = body ?? {};
+                if (typeof name !== 'string' || typeof symbol !== 'string' || typeof uri !== 'string') {
+                    throw new HttpError(400, 'name, symbol and uri are required');
+                }
+                const seed = amount(body.seedAmount, 6, 'seedAmount');
+                const data = encodeFunctionData({ abi: factoryAbi, functionName: 'createToken', args: [name, symbol, uri, seed] });
+                return this.intent(this.factory, data, `Create ${symbol}`);
+            }
+            case 'POST /upload/image': return this.upload(body);
+            case 'GET /rewards/:address/earned': return this.earned(parts[1], query.get('account'));
+            case 'POST /intent/rewards/:address/claim': {
+                const pool = address(parts[2]);
+                return this.intent(pool, encodeFunctionData({ abi: rewardsPoolAbi, functionName: 'claim' }), `Claim rewards from ${pool}`);
+            }
+            case 'GET /migration/status': return this.migrationStatus;
+            case 'POST /intent/migration/migrate': {
+                const tokens = amount(body?.amount, 18, 'amount');
+                const data = encodeFunctionData({ abi: migrationAbi, functionName: 'migrate', args: [tokens] });
+                return this.intent(this.migrationStatus.migrationContract as `0x${string}`, data, `Migrate ${body.amount} V1 tokens`);
+            }
+        }
+        throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    }
+
+    private tokenPage(query: URLSearchParams) {
+        const sortBy = (query.get('sortBy') ?? undefined) as TokenSort | undefined;
+        const limit = query.has('limit') ? Number(query.get('limit')) : undefined;
+        const graduated = query.has('graduated') ? query.get('graduated') === 'true' : undefined;
+        const minMarketCap = query.has('minMarketCap') ? Number(query.get('minMarketCap')) : undefined;
+        const tokens = sortTokens(filterTokens(this.getTokens(), {
+            creator: query.get('creator') ?? undefined,
+            search: query.get('search') ?? undefined,
+            graduated,
+            minMarketCap
+        }), sortBy);
+
+        const cursor = query.get('cursor');
+        const offset = cursor ? Number(cursor.slice(CURSOR.length)) : 0;
+        if (cursor && (!cursor.startsWith(CURSOR) || !Number.isInteger(offset) || offset < 0)) {
+            throw new HttpError(400, `Invalid cursor "${cursor}"`);
+        }
+        if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) throw new HttpError(400, 'limit must be a positive integer');
+        const end = limit === undefined ? tokens.length : offset + limit;
+        return { tokens: tokens.slice(offset, end), nextCursor: end < tokens.length ? `${CURSOR}${end}` : null };
+    }
+
+    /** buy/sell calldata with the floor the real API derives from its quote and `slippageBps`. */
+    private tradeIntent(side: 'buy' | 'sell', marketAddress: string, body: any): TransactionIntent {
+        const market = this.market(marketAddress);
+        const bps = slippage(body?.slippageBps);
+        const to = market.token.market as `0x${string}`;
+        if (side === 'buy') {
+            const usdcIn = amount(body?.usdcIn, 6, 'usdcIn');
+            const minOut = (quoteBuy(market.state, usdcIn).amountOut * (BPS - bps)) / BPS;
+            const data = encodeFunctionData({ abi: marketAbi, functionName: 'buy', args: [usdcIn, minOut] });
+            return this.intent(to, data, `Buy ${market.token.symbol} with ${body.usdcIn} USDC`);
+        }
+        const tokensIn = amount(body?.tokensIn, 18, 'tokensIn');
+        const minOut = (quoteSell(market.state, tokensIn).amountOut * (BPS - bps)) / BPS;
+        const data = encodeFunctionData({ abi: marketAbi, functionName: 'sell', args: [tokensIn, minOut] });
+        return this.intent(to, data, `Sell ${body.tokensIn} ${market.token.symbol}`);
+    }
+
+    private upload(body: any): { url: string } {
+        const match = /^data:(image\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/=]+)$/i.exec(String(body?.image ?? ''));
+        if (!match) throw new HttpError(400, 'image must be a base64 data URL');
+        const bytes = Buffer.from(match[2], 'base64');
+        const id = createHash('sha256').update(bytes).digest('hex').slice(0, 32);
+        this.images.set(id, { type: match[1], bytes });
+        return { url: `${this.url}/images/${id}` };
+    }
+
+    private earned(pool: string, account: string | null): RewardsEarned {
+        if (!account) throw new HttpError(400, 'account is required');
+        const earned = this.rewards.get(`${pool.toLowerCase()}:${account.toLowerCase()}`) ?? 0n;
+        return { pool, account, earned: formatUnits(earned, 6), earnedRaw: earned.toString() };
+    }
+}
@@ -0,0 +1,149 @@
+import { readFile } from 'node:fs/promises';
+import { formatUnits, keccak256, parseUnits, toHex } from 'viem';
+import { PaperTradeError, ValidationError } from './errors';
+import { writeStateFile } from './launch-config';
+import type { PaperConfig, PaperLedgerState, PaperTrade, TradeVenue } from './types';
+
+// Virtual USDC/token ledger behind MoltmoonConfig.mode = 'paper'. Trades fill at the live quote,
+// positions are carried at average cost, and hashes are derived from the ledger so they are
+// well-formed but never exist on-chain.
+
+/** Owner address a paper ledger reports unless PaperConfig.account is set. */
+export const PAPER_ACCOUNT = '0x9a9e700000000000000000000000000000000001';
+export const DEFAULT_PAPER_USDC = '1000';
+
+const usdc = (value: string) => parseUnits(value, 6);
+const tokens = (value: string) => parseUnits(value, 18);
+
+interface PaperFill {
+    market: string;
+    token: string;
+    venue: TradeVenue;
+    usdc: bigint;               // spent on buys, received net of the fee on sells
+    tokens: bigint;
+    feePaid: bigint;
+}
+
+export class PaperLedger {
+    private constructor(private state: PaperLedgerState, private readonly file?: string) {}
+
+    /** The ledger in `config.stateFile` when it exists, otherwise a new one (saved there). */
+    static async open(config: PaperConfig = {}): Promise<PaperLedger> {
+        if (config.stateFile) {
+            let text: string | undefined;
+            try {
+                text = await readFile(config.stateFile, 'utf8');
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') throw error;
+            }
+            if (text !== undefined) {
+                const state = JSON.parse(text);
+                if (state?.version !== 1 || typeof state.positions !== 'object' || !Array.isArray(state.trades)) {
+                    throw new ValidationError('paper', `${config.stateFile} is not a paper ledger.`);
+                }
+                return new PaperLedger(state, config.stateFile);
+            }
+        }
+        // Written straight away so the starting balance sticks for later runs.
+        const ledger = new PaperLedger(PaperLedger.fresh(config), config.stateFile);
+        await ledger.save();
+        return ledger;
+    }
+
+    private static fresh(config: PaperConfig): PaperLedgerState {
+        const amount = String(config.usdc ?? DEFAULT_PAPER_USDC).trim();
+        if (!/^\d+(\.\d+)?$/.test(amount)) {
+            throw new ValidationError('paper', `Invalid paper USDC amount: ${config.usdc}`);
+        }
+        const start = formatUnits(usdc(amount), 6);
+        return {
+            version: 1,
+            account: (config.account ?? PAPER_ACCOUNT) as `0x${string}`,
+            startingUsdc: start,
+            usdc: start,
+            realizedPnl: '0',
+            createdAt: new Date().toISOString(),
+            positions: {},
+            trades: []
+        };
+    }
+
+    get account(): `0x${string}` {
+        return this.state.account;
+    }
+
+    usdcBalance(): bigint {
+        return usdc(this.state.usdc);
+    }
+
+    tokenBalance(token: string): bigint {
+        const position = this.state.positions[token.toLowerCase()];
+        return position ? tokens(position.balance) : 0n;
+    }
+
+    async recordBuy(fill: PaperFill): Promise<PaperTrade> {
+        const balance = this.usdcBalance();
+        if (fill.usdc > balance) {
+            throw new PaperTradeError('PAPER_INSUFFICIENT_BALANCE', `paper ledger holds ${formatUnits(balance, 6)} USDC, ${formatUnits(fill.usdc, 6)} needed`);
+        }
+        const key = fill.token.toLowerCase();
+        const position = this.state.positions[key] ?? { token: fill.token, market: fill.market, balance: '0', costBasis: '0', realizedPnl: '0' };
+        position.balance = formatUnits(tokens(position.balance) + fill.tokens, 18);
+        position.costBasis = formatUnits(usdc(position.costBasis) + fill.usdc, 6);
+        this.state.positions[key] = position;
+        this.state.usdc = formatUnits(balance - fill.usdc, 6);
+        return this.record('buy', fill);
+    }
+
+    async recordSell(fill: PaperFill): Promise<PaperTrade> {
+        const key = fill.token.toLowerCase();
+        const position = this.state.positions[key];
+        const held = position ? tokens(position.balance) : 0n;
+        if (!position || fill.tokens > held) {
+            throw new PaperTradeError('PAPER_INSUFFICIENT_BALANCE', `paper ledger holds ${formatUnits(held, 18)} of ${fill.token}, ${formatUnits(fill.tokens, 18)} needed`);
+        }
+        const cost = usdc(position.costBasis);
+        const costSold = (cost * fill.tokens) / held;
+        const pnl = fill.usdc - costSold;
+        position.balance = formatUnits(held - fill.tokens, 18);
+        position.costBasis = formatUnits(cost - costSold, 6);
+        position.realizedPnl = formatUnits(usdc(position.realizedPnl) + pnl, 6);
+        this.state.usdc = formatUnits(this.usdcBalance() + fill.usdc, 6);
+        this.state.realizedPnl = formatUnits(usdc(this.state.realizedPnl) + pnl, 6);
+        return this.record('sell', fill, pnl);
+    }
+
+    private async record(side: 'buy' | 'sell', fill: PaperFill, pnl?: bigint): Promise<PaperTrade> {
+        const { account, createdAt, trades } = this.state;
+        const trade: PaperTrade = {
+            hash: keccak256(toHex(`${account}:${createdAt}:${trades.length}:${side}:${fill.market}:${fill.usdc}:${fill.tokens}`)),
+            at: new Date().toISOString(),
+            side,
+            market: fill.market,
+            token: fill.token,
+            venue: fill.venue,
+            usdc: formatUnits(fill.usdc, 6),
+            tokens: formatUnits(fill.tokens, 18),
+            feePaid: formatUnits(fill.feePaid, 6),
+            ...(pnl !== undefined ? { realizedPnl: formatUnits(pnl, 6) } : {})
+        };
+        trades.push(trade);
+        await this.save();
+        return trade;
+    }
+
+    /** A copy of the ledger, in the state file's format. */
+    export(): PaperLedgerState {
+        return structuredClone(this.state);
+    }
+
+    /** Start over with `config.usdc` (default 1000) and no positions or trades. */
+    async reset(config: PaperConfig = {}): Promise<void> {
+        this.state = PaperLedger.fresh({ account: this.state.account, ...config });
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        if (this.file) await writeStateFile(this.file, this.state);
+    }
+}
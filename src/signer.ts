@@ -0,0 +1,93 @@
+import { createWalletClient, custom, http, type Account, type Chain, type WalletClient } from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { SignerRequiredError, ValidationError } from './errors';
+import type { MoltmoonConfig, RemoteSigner } from './types';
+
+/**
+ * Wallet client plus the account it sends from. `account` is a viem Account
+ * for local/remote signers, or a bare address when the wallet itself signs
+ * (JSON-RPC account, EIP-1193 provider).
+ */
+export interface ResolvedSigner {
+    wallet: WalletClient;
+    account: Account | `0x${string}`;
+    address: `0x${string}`;
+}
+
+function unsupported(method: string): never {
+    throw new SignerRequiredError(`Remote signer does not implement ${method}.`);
+}
+
+function remoteAccount(signer: RemoteSigner): Account {
+    return toAccount({
+        address: signer.address,
+        signTransaction: (transaction) => signer.signTransaction(transaction),
+        signMessage: signer.signMessage ? ({ message }) => signer.signMessage!(message) : () => unsupported('signMessage'),
+        signTypedData: () => unsupported('signTypedData')
+    });
+}
+
+/**
+ * Resolves the signer fields of MoltmoonConfig into a wallet client. Exactly one of
+ * privateKey, account, walletClient, provider or remoteSigner may be set.
+ * The address of provider-backed wallets is requested lazily on first use.
+ */
+export class SignerSource {
+    private wallet?: WalletClient;
+    private account?: Account | `0x${string}`;
+    private pending?: Promise<ResolvedSigner>;
+
+    constructor(config: MoltmoonConfig, chain: Chain) {
+        const configured = (['privateKey', 'account', 'walletClient', 'provider', 'remoteSigner'] as const)
+            .filter((key) => config[key] !== undefined);
+        if (configured.length > 1) {
+            throw new ValidationError('signer', `Configure only one signer. Got: ${configured.join(', ')}.`);
+        }
+
+        if (config.walletClient) {
+            this.wallet = config.walletClient;
+            this.account = config.walletClient.account;
+            return;
+        }
+        if (config.provider) {
+            this.wallet = createWalletClient({ chain, transport: custom(config.provider) });
+            this.account = config.providerAddress;
+            return;
+        }
+
+        const account = config.privateKey
+            ? privateKeyToAccount(config.privateKey)
+            : config.remoteSigner
+                ? remoteAccount(config.remoteSigner)
+                : config.account;
+        if (account) {
+            this.account = account;
+            this.wallet = createWalletClient({ account, chain, transport: http(config.rpcUrl) });
+        }
+    }
+
+    get available(): boolean {
+        return this.wallet !== undefined;
+    }
+
+    async resolve(): Promise<ResolvedSigner> {
+        const wallet = this.wallet;
+        if (!wallet) throw new SignerRequiredError();
+        if (this.account) {
+            const account = this.account;
+            return { wallet, account, address: typeof account === 'string' ? account : account.address };
+        }
+
+        this.pending ??= wallet.requestAddresses().then(([address]) => {
+            if (!address) throw new SignerRequiredError('Wallet provider returned no accounts.');
+            this.account = address;
+            return { wallet, account: address, address };
+        });
+        try {
+            return await this.pending;
+        } catch (error) {
+            this.pending = undefined;
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,463 @@
+import { readFile } from 'node:fs/promises';
+import { formatUnits, isAddress, parseUnits } from 'viem';
+import { PRICE_DECIMALS, priceOf } from './curve';
+import { AbortedError, ApiError, PriceImpactError, SignerRequiredError, TransactionError, TransactionRevertedError, ValidationError } from './errors';
+import { sleep, throwIfAborted } from './http';
+import { readConfigFile, writeStateFile } from './launch-config';
+import type { MoltmoonSDK } from './index';
+import type {
+    Strategy,
+    StrategyEvent,
+    StrategyFill,
+    StrategyOrder,
+    StrategyOrderState,
+    StrategyRunnerOptions,
+    StrategyState,
+    TradePreview
+} from './types';
+
+// Declarative orders (limit, take-profit/stop-loss, DCA, new-launch buys) evaluated against
+// venue quotes and executed through buy/sell, with per-order progress kept in a state file
+// so a restarted runner carries on where it stopped.
+
+type FieldKind = 'string' | 'address' | 'amount' | 'number' | 'integer' | 'bps' | 'percent';
+
+const TOP_FIELDS: Record<string, FieldKind> = {
+    pollSeconds: 'number',
+    slippageBps: 'bps',
+    maxPriceImpactBps: 'bps',
+    account: 'address'
+};
+
+const COMMON_FIELDS: Record<string, FieldKind> = { id: 'string', slippageBps: 'bps', maxPriceImpactBps: 'bps' };
+
+const ORDER_FIELDS: Record<StrategyOrder['type'], { required: string[]; fields: Record<string, FieldKind> }> = {
+    'limit-buy': {
+        required: ['market', 'usdc', 'maxPrice'],
+        fields: { market: 'address', usdc: 'amount', maxPrice: 'amount' }
+    },
+    'limit-sell': {
+        required: ['market', 'minPrice'],
+        fields: { market: 'address', token: 'address', amount: 'amount', percent: 'percent', minPrice: 'amount' }
+    },
+    exit: {
+        required: ['market'],
+        fields: { market: 'address', token: 'address', percent: 'percent', entryPrice: 'amount', takeProfitPercent: 'number', stopLossPercent: 'percent' }
+    },
+    dca: {
+        required: ['market', 'usdc', 'everyMinutes'],
+        fields: { market: 'address', usdc: 'amount', everyMinutes: 'number', times: 'integer', maxPrice: 'amount' }
+    },
+    'new-launch': {
+        required: ['usdc'],
+        fields: { usdc: 'amount', creator: 'address', search: 'string', minMarketCap: 'number', maxPrice: 'amount', maxBuys: 'integer' }
+    }
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function checkField(kind: FieldKind, key: string, raw: unknown, at: string): unknown {
+    const invalid = (what: string) => new ValidationError(key, `${at}"${key}" must be ${what}.`);
+    switch (kind) {
+        case 'string':
+            if (typeof raw !== 'string' || !raw.trim()) throw invalid('a non-empty string');
+            return raw;
+        case 'address':
+            if (typeof raw !== 'string' || !isAddress(raw)) throw invalid('an address');
+            return raw;
+        case 'amount': {
+            const value = typeof raw === 'number' ? String(raw) : raw;
+            if (typeof value !== 'string' || !/^\d+(\.\d+)?$/.test(value) || !/[1-9]/.test(value)) throw invalid('a positive decimal amount');
+            return value;
+        }
+        case 'number':
+            if (typeof raw !== 'number' || !Number.isFinite(raw) || raw <= 0) throw invalid('a positive number');
+            return raw;
+        case 'integer':
+            if (!Number.isInteger(raw) || (raw as number) <= 0) throw invalid('a positive integer');
+            return raw;
+        case 'bps':
+            if (!Number.isInteger(raw) || (raw as number) < 0 || (raw as number) > 10_000) throw invalid('an integer in [0, 10000] bps');
+            return raw;
+        case 'percent':
+            if (typeof raw !== 'number' || !(raw > 0 && raw <= 100)) throw invalid('a percentage in (0, 100]');
+            return raw;
+    }
+}
+
+function parseOrder(value: unknown, index: number, at: string): StrategyOrder {
+    const where = `${at}orders[${index}]: `;
+    if (!isObject(value)) throw new ValidationError('orders', `${where}expected an object.`);
+    const type = value.type as StrategyOrder['type'];
+    const spec = typeof type === 'string' ? ORDER_FIELDS[type] : undefined;
+    if (!spec) {
+        throw new ValidationError('type', `${where}"type" must be one of ${Object.keys(ORDER_FIELDS).join(', ')}.`);
+    }
+
+    const order: Record<string, unknown> = { type, id: `${type}-${index + 1}` };
+    for (const [key, raw] of Object.entries(value)) {
+        if (key === 'type') continue;
+        const kind = spec.fields[key] ?? COMMON_FIELDS[key];
+        if (!kind) throw new ValidationError(key, `${where}unknown field "${key}" for a ${type} order.`);
+        if (raw === undefined || raw === null) continue;
+        order[key] = checkField(kind, key, raw, where);
+    }
+    for (const key of spec.required) {
+        if (order[key] === undefined) throw new ValidationError(key, `${where}"${key}" is required for a ${type} order.`);
+    }
+    if (type === 'limit-sell' && (order.amount === undefined) === (order.percent === undefined)) {
+        throw new ValidationError('amount', `${where}pass exactly one of "amount" or "percent".`);
+    }
+    if (type === 'exit' && order.takeProfitPercent === undefined && order.stopLossPercent === undefined) {
+        throw new ValidationError('takeProfitPercent', `${where}set takeProfitPercent, stopLossPercent or both.`);
+    }
+    return order as unknown as StrategyOrder;
+}
+
+/** Strategy from a parsed JSON/YAML object. Unknown keys are rejected; errors are prefixed with `source`. */
+export function parseStrategy(value: unknown, source = 'strategy'): Strategy {
+    const at = source ? `${source}: ` : '';
+    if (!isObject(value)) throw new ValidationError('strategy', `${at}expected an object with an "orders" list.`);
+
+    const strategy: Strategy = { pollSeconds: 30, slippageBps: 500, orders: [] };
+    for (const [key, raw] of Object.entries(value)) {
+        if (key === 'orders') continue;
+        const kind = TOP_FIELDS[key];
+        if (!kind) throw new ValidationError(key, `${at}unknown field "${key}".`);
+        if (raw === undefined || raw === null) continue;
+        (strategy as unknown as Record<string, unknown>)[key] = checkField(kind, key, raw, at);
+    }
+
+    if (!Array.isArray(value.orders) || value.orders.length === 0) {
+        throw new ValidationError('orders', `${at}"orders" must be a non-empty list.`);
+    }
+    const ids = new Set<string>();
+    value.orders.forEach((raw, i) => {
+        const order = parseOrder(raw, i, at);
+        if (ids.has(order.id)) throw new ValidationError('id', `${at}duplicate order id "${order.id}".`);
+        ids.add(order.id);
+        strategy.orders.push(order);
+    });
+    return strategy;
+}
+
+/** Strategy from a .json, .yaml or .yml file. */
+export async function loadStrategy(file: string): Promise<Strategy> {
+    return parseStrategy(await readConfigFile(file), file);
+}
+
+/** `<file>.state.json`, or `<file>.dry-run.state.json` so dry runs never touch live progress. */
+export function defaultStrategyStateFile(file: string, dryRun = false): string {
+    return dryRun ? `${file}.dry-run.state.json` : `${file}.state.json`;
+}
+
+export async function readStrategyState(file: string, dryRun = false): Promise<StrategyState> {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return { version: 1, dryRun, orders: {} };
+        throw error;
+    }
+    const state = JSON.parse(text);
+    if (state?.version !== 1 || typeof state.orders !== 'object') {
+        throw new ValidationError('state', `${file} is not a strategy state file.`);
+    }
+    if (state.dryRun !== dryRun) {
+        throw new ValidationError('state', `${file} belongs to a ${state.dryRun ? 'dry' : 'live'} run; use a separate state file.`);
+    }
+    return state;
+}
+
+const formatPrice = (price: bigint) => formatUnits(price, PRICE_DECIMALS);
+const parsePrice = (price: string) => parseUnits(price, PRICE_DECIMALS);
+
+/**
+ * Evaluates a Strategy's orders every `pollSeconds` and trades through the SDK's buy/sell.
+ * A live trade marks its order `pending` in the state file before sending; if the runner
+ * dies before the outcome is known, the next run refuses to start until told to retry.
+ */
+export class StrategyRunner {
+    private state?: StrategyState;
+    private account?: string;
+    private readonly tokens = new Map<string, string>();
+
+    constructor(
+        private readonly sdk: MoltmoonSDK,
+        private readonly strategy: Strategy,
+        private readonly options: StrategyRunnerOptions
+    ) {}
+
+    /** Current progress (loaded from the state file on first use). */
+    async getState(): Promise<StrategyState> {
+        if (this.state) return this.state;
+        this.account = await this.sellAccount();
+        const state = await readStrategyState(this.options.stateFile, !!this.options.dryRun);
+        const pending = this.strategy.orders.filter((order) => state.orders[order.id]?.status === 'pending');
+        if (pending.length > 0) {
+            if (!this.options.retryPending) {
+                throw new ValidationError('state', `${pending.map((order) => order.id).join(', ')} did not finish in a previous run and may have traded. `
+                    + `Check the account on-chain, then retry pending orders or mark them in ${this.options.stateFile}.`);
+            }
+            for (const order of pending) state.orders[order.id].status = 'active';
+        }
+        this.state = state;
+        return state;
+    }
+
+    /**
+     * The account percent sells are sized against, resolved at start so a bad setup fails once
+     * instead of on every poll. Live runs size from the signer, the wallet the sell is sent from,
+     * and reject a different strategy account; dry runs may use the strategy account without a signer.
+     */
+    private async sellAccount(): Promise<string | undefined> {
+        const { account } = this.strategy;
+        const percent = this.strategy.orders.filter((order) => order.type === 'exit' || (order.type === 'limit-sell' && order.amount === undefined));
+        if (!percent.length) return account;
+        if (this.options.dryRun && account) return account;
+
+        let signer: string;
+        try {
+            signer = await this.sdk.getAddress();
+        } catch (error) {
+            if (!(error instanceof SignerRequiredError) || !this.options.dryRun) throw error;
+            throw new ValidationError('account', `${percent.map((order) => order.id).join(', ')} sell a percent of the balance; `
+                + 'set "account" in the strategy (or pass --account) to run without a signer.');
+        }
+        if (account && account.toLowerCase() !== signer.toLowerCase()) {
+            throw new ValidationError('account', `Strategy account ${account} is not the signer ${signer}. `
+                + `${percent.map((order) => order.id).join(', ')} would be sized from one wallet and sold from the other.`);
+        }
+        return signer;
+    }
+
+    /** Evaluate every active order once. Resolves to false once no order is left active. */
+    async tick(signal?: AbortSignal): Promise<boolean> {
+        const state = await this.getState();
+        for (const order of this.strategy.orders) {
+            throwIfAborted(signal);
+            const record = state.orders[order.id] ??= { status: 'active', fills: [], updatedAt: new Date().toISOString() };
+            if (record.status !== 'active') continue;
+            try {
+                await this.evaluate(order, record, signal);
+            } catch (error) {
+                if (error instanceof AbortedError) throw error;
+                record.lastError = error instanceof Error ? error.message : String(error);
+                record.updatedAt = new Date().toISOString();
+                await this.save();
+                // Outcome unknown: stop rather than risk trading the same order twice.
+                if ((record as StrategyOrderState).status === 'pending') throw error;
+                if (error instanceof PriceImpactError) {
+                    this.emit(order, 'skip', record.lastError);
+                    continue;
+                }
+                if (error instanceof ValidationError) record.status = 'failed';
+                this.emit(order, 'error', record.lastError);
+                continue;
+            }
+            record.updatedAt = new Date().toISOString();
+            await this.save();
+        }
+        return this.strategy.orders.some((order) => state.orders[order.id]?.status === 'active');
+    }
+
+    /** Tick until every order is done or failed, or `signal` aborts. */
+    async run(signal?: AbortSignal): Promise<StrategyState> {
+        try {
+            while (await this.tick(signal)) {
+                await sleep(this.strategy.pollSeconds * 1000, signal);
+            }
+        } catch (error) {
+            if (!(error instanceof AbortedError)) throw error;
+        }
+        return this.getState();
+    }
+
+    private async evaluate(order: StrategyOrder, record: StrategyOrderState, signal?: AbortSignal): Promise<void> {
+        switch (order.type) {
+            case 'limit-buy': {
+                const { preview, price } = await this.quote(order, 'buy', order.market, order.usdc, signal);
+                if (price > parsePrice(order.maxPrice)) {
+                    return this.emit(order, 'skip', `price ${formatPrice(price)} above limit ${order.maxPrice}`);
+                }
+                await this.execute(order, record, preview, price);
+                return this.finish(order, record);
+            }
+            case 'limit-sell': {
+                const quoted = await this.quoteSell(order, order.amount, order.percent, signal);
+                if (!quoted) return;
+                if (quoted.price < parsePrice(order.minPrice)) {
+                    return this.emit(order, 'skip', `price ${formatPrice(quoted.price)} below limit ${order.minPrice}`);
+                }
+                await this.execute(order, record, quoted.preview, quoted.price, quoted.token);
+                return this.finish(order, record);
+            }
+            case 'exit': {
+                const quoted = await this.quoteSell(order, undefined, order.percent ?? 100, signal);
+                if (!quoted) return;
+                record.entryPrice ??= order.entryPrice ?? formatPrice(quoted.price);
+                const entry = parsePrice(record.entryPrice);
+                const takeProfit = order.takeProfitPercent !== undefined
+                    ? (entry * BigInt(Math.round((100 + order.takeProfitPercent) * 100))) / 10_000n
+                    : undefined;
+                const stopLoss = order.stopLossPercent !== undefined
+                    ? (entry * BigInt(Math.round((100 - order.stopLossPercent) * 100))) / 10_000n
+                    : undefined;
+                const hit = takeProfit !== undefined && quoted.price >= takeProfit ? 'take-profit'
+                    : stopLoss !== undefined && quoted.price <= stopLoss ? 'stop-loss'
+                    : undefined;
+                if (!hit) {
+                    const bounds = [
+                        takeProfit !== undefined ? `take-profit ${formatPrice(takeProfit)}` : '',
+                        stopLoss !== undefined ? `stop-loss ${formatPrice(stopLoss)}` : ''
+                    ].filter(Boolean).join(', ');
+                    return this.emit(order, 'skip', `price ${formatPrice(quoted.price)} (entry ${record.entryPrice}; ${bounds})`);
+                }
+                await this.execute(order, record, quoted.preview, quoted.price, quoted.token);
+                return this.finish(order, record, hit);
+            }
+            case 'dca': {
+                if (record.nextRunAt && Date.parse(record.nextRunAt) > Date.now()) return;
+                const { preview, price } = await this.quote(order, 'buy', order.market, order.usdc, signal);
+                const next = new Date(Date.now() + order.everyMinutes * 60_000).toISOString();
+                if (order.maxPrice && price > parsePrice(order.maxPrice)) {
+                    record.nextRunAt = next;
+                    return this.emit(order, 'skip', `price ${formatPrice(price)} above ${order.maxPrice}; next buy at ${next}`);
+                }
+                await this.execute(order, record, preview, price);
+                record.nextRunAt = next;
+                if (order.times !== undefined && record.fills.length >= order.times) this.finish(order, record);
+                return;
+            }
+            case 'new-launch': {
+                const query = { creator: order.creator, search: order.search, sortBy: 'newest' as const, limit: 100, signal };
+                // Everything listed when the order starts is old, whatever its market cap.
+                if (!record.seen) {
+                    record.seen = (await this.sdk.getTokensPage(query)).tokens.map((token) => token.market.toLowerCase());
+                    return this.emit(order, 'skip', `watching for new launches (${record.seen.length} existing ignored)`);
+                }
+                const seen = new Set(record.seen);
+                const { tokens } = await this.sdk.getTokensPage({ ...query, minMarketCap: order.minMarketCap });
+                const maxBuys = order.maxBuys ?? 1;
+                for (const token of tokens.filter((t) => !seen.has(t.market.toLowerCase())).reverse()) {
+                    if (record.fills.length >= maxBuys) break;
+                    let quoted;
+                    try {
+                        quoted = await this.quote(order, 'buy', token.market, order.usdc, signal);
+                    } catch (error) {
+                        if (error instanceof AbortedError) throw error;
+                        // Rejected input stays rejected, so the token is dropped; anything else is retried next poll.
+                        const terminal = error instanceof ValidationError
+                            || (error instanceof ApiError && error.status >= 400 && error.status < 500 && error.status !== 429);
+                        if (terminal) record.seen.push(token.market.toLowerCase());
+                        this.emit(order, terminal ? 'error' : 'skip', `${token.symbol}: ${error instanceof Error ? error.message : String(error)}`);
+                        continue;
+                    }
+                    // Marked before trading so a token that fails to buy is not retried every poll.
+                    record.seen.push(token.market.toLowerCase());
+                    const { preview, price } = quoted;
+                    if (order.maxPrice && price > parsePrice(order.maxPrice)) {
+                        this.emit(order, 'skip', `${token.symbol} price ${formatPrice(price)} above ${order.maxPrice}`);
+                        continue;
+                    }
+                    await this.execute(order, record, preview, price);
+                }
+                if (record.fills.length >= maxBuys) this.finish(order, record);
+                return;
+            }
+        }
+    }
+
+    private tradeOptions(order: StrategyOrder) {
+        return {
+            slippageBps: order.slippageBps ?? this.strategy.slippageBps,
+            maxPriceImpactBps: order.maxPriceImpactBps ?? this.strategy.maxPriceImpactBps
+        };
+    }
+
+    /** Preview plus its price in USDC per token (PRICE_DECIMALS), gross of the sell fee. */
+    private async quote(order: StrategyOrder, side: 'buy' | 'sell', market: string, amount: string, signal?: AbortSignal) {
+        const { slippageBps, maxPriceImpactBps } = this.tradeOptions(order);
+        const preview = side === 'buy'
+            ? await this.sdk.previewBuy(market, amount, slippageBps, { maxPriceImpactBps, signal })
+            : await this.sdk.previewSell(market, amount, slippageBps, { maxPriceImpactBps, signal });
+        const price = side === 'buy'
+            ? priceOf(parseUnits(preview.amountIn, 6), parseUnits(preview.expectedOut, 18))
+            : priceOf(parseUnits(preview.expectedOut, 6) + parseUnits(preview.feePaid, 6), parseUnits(preview.amountIn, 18));
+        return { preview, price };
+    }
+
+    /** Sell quote for a fixed amount or a share of the balance; undefined (and a skip event) when there is nothing to sell. */
+    private async quoteSell(order: StrategyOrder & { market: string; token?: string }, amount: string | undefined, percent: number | undefined, signal?: AbortSignal) {
+        let token = order.token ?? this.tokens.get(order.market);
+        if (!token) {
+            token = (await this.sdk.getMarket(order.market, { signal })).token;
+            this.tokens.set(order.market, token);
+        }
+        if (amount === undefined) {
+            try {
+                amount = await this.sdk.getSellAmountForPercent(token, percent!, this.account);
+            } catch (error) {
+                if (error instanceof ValidationError && error.field === 'tokensIn') {
+                    this.emit(order, 'skip', `no ${token} balance yet`);
+                    return undefined;
+                }
+                throw error;
+            }
+        }
+        return { ...(await this.quote(order, 'sell', order.market, amount, signal)), token };
+    }
+
+    private async execute(order: StrategyOrder, record: StrategyOrderState, preview: TradePreview, price: bigint, token?: string): Promise<void> {
+        const fill: StrategyFill = {
+            at: new Date().toISOString(),
+            side: preview.side,
+            market: preview.market,
+            amountIn: preview.amountIn,
+            expectedOut: preview.expectedOut,
+            minAmountOut: preview.minAmountOut,
+            price: formatPrice(price),
+            hash: null
+        };
+
+        if (!this.options.dryRun) {
+            record.status = 'pending';
+            await this.save();
+            const { slippageBps, maxPriceImpactBps } = this.tradeOptions(order);
+            // No abort signal: once started, a trade is seen through so its outcome gets recorded.
+            const trade = { maxPriceImpactBps, minAmountOut: preview.minAmountOut };
+            try {
+                fill.hash = (preview.side === 'buy'
+                    ? await this.sdk.buy(preview.market, preview.amountIn, slippageBps, trade)
+                    : await this.sdk.sell(preview.market, preview.amountIn, token!, slippageBps, trade)) as `0x${string}`;
+            } catch (error) {
+                // A tx that was broadcast but never confirmed stays pending: it may still land.
+                const unconfirmed = error instanceof TransactionError && error.hash && !(error instanceof TransactionRevertedError);
+                if (!unconfirmed) record.status = 'active';
+                throw error;
+            }
+            record.status = 'active';
+        }
+
+        record.fills.push(fill);
+        record.lastError = undefined;
+        const [inUnit, outUnit] = fill.side === 'buy' ? ['USDC', 'tokens'] : ['tokens', 'USDC'];
+        const what = `${fill.side} ${fill.amountIn} ${inUnit} on ${fill.market} for ~${fill.expectedOut} ${outUnit} at ${fill.price}`;
+        this.emit(order, 'trade', fill.hash ? `${what} (tx ${fill.hash})` : `[dry run] would ${what}`, fill);
+    }
+
+    private finish(order: StrategyOrder, record: StrategyOrderState, reason?: string): void {
+        record.status = 'done';
+        this.emit(order, 'done', reason ? `complete (${reason})` : 'complete');
+    }
+
+    private emit(order: StrategyOrder, kind: StrategyEvent['kind'], message: string, fill?: StrategyFill): void {
+        this.options.onEvent?.({ order: order.id, kind, message, ...(fill ? { fill } : {}) });
+    }
+
+    private async save(): Promise<void> {
+        if (this.state) await writeStateFile(this.options.stateFile, this.state);
+    }
+}
@@ -0,0 +1,95 @@
+import { ValidationError } from './errors';
+import type { Token, TokenQuery, TokenSort } from './types';
+
+// Client-side token list filtering, sorting and offset paging. Used when the API
+// returns the plain array instead of honouring the query; applying a filter the API
+// already applied is a no-op, so these also run over server pages.
+
+const SORTS: TokenSort[] = ['newest', 'marketCap', 'raised', 'progress'];
+const OFFSET_CURSOR = 'offset:';
+
+export function validateTokenQuery(query: TokenQuery): void {
+    if (query.sortBy !== undefined && !SORTS.includes(query.sortBy)) {
+        throw new ValidationError('sortBy', `Unknown sortBy "${query.sortBy}". Use one of: ${SORTS.join(', ')}.`);
+    }
+    if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit <= 0)) {
+        throw new ValidationError('limit', 'limit must be a positive integer.');
+    }
+    if (query.minMarketCap !== undefined && !(query.minMarketCap >= 0)) {
+        throw new ValidationError('minMarketCap', 'minMarketCap must be a non-negative number (USDC).');
+    }
+}
+
+/** Query string for GET /tokens. Offset cursors are client-side and never sent. */
+export function tokenQueryString(query: TokenQuery): string {
+    const params = new URLSearchParams();
+    const { creator, search, graduated, minMarketCap, sortBy, limit, cursor } = query;
+    if (creator) params.set('creator', creator);
+    if (search) params.set('search', search);
+    if (graduated !== undefined) params.set('graduated', String(graduated));
+    if (minMarketCap !== undefined) params.set('minMarketCap', String(minMarketCap));
+    if (sortBy) params.set('sortBy', sortBy);
+    if (limit !== undefined) params.set('limit', String(limit));
+    if (cursor && !isOffsetCursor(cursor)) params.set('cursor', cursor);
+    const qs = params.toString();
+    return qs ? `?${qs}` : '';
+}
+
+export function isOffsetCursor(cursor: string): boolean {
+    return cursor.startsWith(OFFSET_CURSOR);
+}
+
+export function filterTokens(tokens: Token[], query: TokenQuery): Token[] {
+    const creator = query.creator?.toLowerCase();
+    const search = query.search?.trim().toLowerCase();
+    return tokens.filter((token) => {
+        if (creator && token.creator.toLowerCase() !== creator) return false;
+        if (search
+            && !token.name.toLowerCase().includes(search)
+            && !token.symbol.toLowerCase().includes(search)
+            && token.token.toLowerCase() !== search
+            && token.market.toLowerCase() !== search) return false;
+        if (query.graduated !== undefined && (token.graduated ?? false) !== query.graduated) return false;
+        if (query.minMarketCap !== undefined && (token.marketCap ?? 0) < query.minMarketCap) return false;
+        return true;
+    });
+}
+
+/** Descending by the chosen field; ties (and 'newest') fall back to launch block, newest first. */
+export function sortTokens(tokens: Token[], sortBy: TokenSort = 'newest'): Token[] {
+    const key = (token: Token): number => {
+        switch (sortBy) {
+            case 'marketCap': return token.marketCap ?? 0;
+            case 'raised': return token.raised ?? 0;
+            case 'progress': return token.progressPercent ?? 0;
+            default: return 0;
+        }
+    };
+    const block = (token: Token) => BigInt(token.blockNumber || '0');
+    return [...tokens].sort((a, b) => key(b) - key(a) || Number(block(b) - block(a)));
+}
+
+export function offsetCursor(offset: number): string {
+    return `${OFFSET_CURSOR}${offset}`;
+}
+
+/** Position an offset cursor points at (0 without one). */
+export function cursorOffset(cursor?: string): number {
+    if (!cursor) return 0;
+    const offset = isOffsetCursor(cursor) ? Number(cursor.slice(OFFSET_CURSOR.length)) : NaN;
+    if (!Number.isInteger(offset) || offset < 0) {
+        throw new ValidationError('cursor', `Invalid cursor "${cursor}".`);
+    }
+    return offset;
+}
+
+/** One page of an already filtered and sorted list, with an offset cursor for the next. */
+export function pageTokens(tokens: Token[], limit?: number, cursor?: string): { tokens: Token[]; nextCursor: string | null } {
+    const offset = cursorOffset(cursor);
+    if (limit === undefined) return { tokens: tokens.slice(offset), nextCursor: null };
+    const end = offset + limit;
+    return {
+        tokens: tokens.slice(offset, end),
+        nextCursor: end < tokens.length ? offsetCursor(end) : null
+    };
+}
@@ -0,0 +1,254 @@
+import { formatGwei, type Chain, type PublicClient, type TransactionReceipt } from 'viem';
+import { TransactionError, TransactionRevertedError, ValidationError, toTransactionError } from './errors';
+import type { SignerSource } from './signer';
+
+export interface TxRequest {
+    to: `0x${string}`;
+    data: `0x${string}`;
+    value: bigint;
+    gas?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+}
+
+export interface FeeCaps {
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+}
+
+export interface Fees {
+    baseFeePerGas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+}
+
+export interface SentTransaction {
+    hash: `0x${string}`;
+    nonce: number;
+    from: `0x${string}`;
+    request: TxRequest;
+}
+
+/**
+ * Sends transactions for one SDK instance with a locally tracked nonce, so
+ * several sends can be in flight from the same wallet without collisions.
+ *
+ * Nonce allocation and broadcast run one at a time; waiting for receipts does
+ * not, which is what allows approve + trade to be pipelined. After any failed
+ * broadcast the cached nonce is dropped and re-read from the node.
+ */
+export class TransactionManager {
+    private readonly nonces = new Map<string, number>();
+    private readonly sent = new Map<string, SentTransaction>();
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly publicClient: PublicClient,
+        private readonly signer: SignerSource,
+        private readonly chain: Chain,
+        private readonly caps: FeeCaps = {}
+    ) {}
+
+    private get capped(): boolean {
+        return this.caps.maxFeePerGas !== undefined || this.caps.maxPriorityFeePerGas !== undefined;
+    }
+
+    private checkCap(fee: bigint, label: string): void {
+        const cap = this.caps.maxFeePerGas;
+        if (cap !== undefined && fee > cap) {
+            throw new TransactionError(
+                `${label} ${formatGwei(fee)} gwei is above the maxFeePerGas cap of ${formatGwei(cap)} gwei.`,
+                { code: 'FEE_CAP_EXCEEDED' }
+            );
+        }
+    }
+
+    /**
+     * Current EIP-1559 fees with the configured caps applied. Throws FEE_CAP_EXCEEDED when the
+     * base fee alone is above maxFeePerGas, since such a tx would sit unmined.
+     */
+    async fees(): Promise<Fees> {
+        const [block, estimate] = await Promise.all([
+            this.publicClient.getBlock(),
+            this.publicClient.estimateFeesPerGas()
+        ]);
+        const baseFeePerGas = block.baseFeePerGas ?? 0n;
+        this.checkCap(baseFeePerGas, 'Current base fee');
+        const min = (value: bigint, cap?: bigint) => (cap !== undefined && cap < value ? cap : value);
+        const maxFeePerGas = min(estimate.maxFeePerGas, this.caps.maxFeePerGas);
+        const maxPriorityFeePerGas = min(min(estimate.maxPriorityFeePerGas, this.caps.maxPriorityFeePerGas), maxFeePerGas);
+        return { baseFeePerGas, maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    private async sender(from?: `0x${string}`): Promise<`0x${string}`> {
+        return from ?? (await this.signer.resolve()).address;
+    }
+
+    /** Simulate `request` from `from` (default: the signer) via eth_estimateGas; a revert throws with its decoded reason. */
+    async estimateGas(request: TxRequest, from?: `0x${string}`): Promise<bigint> {
+        const account = await this.sender(from);
+        try {
+            return await this.publicClient.estimateGas({ account, to: request.to, data: request.data, value: request.value });
+        } catch (error) {
+            throw toTransactionError(error);
+        }
+    }
+
+    /**
+     * Simulate `requests` in order on top of each other (eth_simulateV1), so a trade sees
+     * the allowance set by the approve before it. Returns gas limits with 20% headroom, or
+     * undefined when the node does not support bundle simulation.
+     */
+    async simulateBundle(requests: TxRequest[], from?: `0x${string}`): Promise<bigint[] | undefined> {
+        const account = await this.sender(from);
+        let results;
+        try {
+            ({ results } = await this.publicClient.simulateCalls({
+                account,
+                calls: requests.map(({ to, data, value }) => ({ to, data, value }))
+            }));
+        } catch {
+            return undefined;
+        }
+        return results.map((result) => {
+            if (result.status === 'failure') throw toTransactionError(result.error);
+            return (result.gasUsed * 12n) / 10n;
+        });
+    }
+
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async nextNonce(address: `0x${string}`): Promise<number> {
+        const key = address.toLowerCase();
+        const cached = this.nonces.get(key);
+        if (cached !== undefined) return cached;
+        const pending = await this.publicClient.getTransactionCount({ address, blockTag: 'pending' });
+        this.nonces.set(key, pending);
+        return pending;
+    }
+
+    /** Forget the cached nonce(s); the next send re-reads the pending count from the node. */
+    resetNonce(address?: string): void {
+        if (address) this.nonces.delete(address.toLowerCase());
+        else this.nonces.clear();
+    }
+
+    async send(request: TxRequest, nonceOverride?: number): Promise<SentTransaction> {
+        const { wallet, account, address } = await this.signer.resolve();
+        if (this.capped && request.maxFeePerGas === undefined) {
+            const { maxFeePerGas, maxPriorityFeePerGas } = await this.fees();
+            request = { ...request, maxFeePerGas, maxPriorityFeePerGas };
+        }
+        return this.exclusive(async () => {
+            const nonce = nonceOverride ?? await this.nextNonce(address);
+            let hash: `0x${string}`;
+            try {
+                hash = await wallet.sendTransaction({ ...request, nonce, account, chain: this.chain });
+            } catch (error) {
+                this.resetNonce(address);
+                throw toTransactionError(error);
+            }
+            if (nonceOverride === undefined) this.nonces.set(address.toLowerCase(), nonce + 1);
+            const sent = { hash, nonce, from: address, request };
+            this.sent.set(hash, sent);
+            return sent;
+        });
+    }
+
+    /**
+     * Wait for `hash` to be mined. Follows replacements (speed-up / cancel).
+     * A reverted receipt throws, with the revert reason recovered by replaying the call.
+     */
+    async confirm(sent: SentTransaction): Promise<TransactionReceipt> {
+        let receipt: TransactionReceipt;
+        try {
+            receipt = await this.publicClient.waitForTransactionReceipt({ hash: sent.hash });
+        } catch (error) {
+            throw toTransactionError(error, sent.hash);
+        }
+
+        if (receipt.status === 'reverted') {
+            const { to, data, value } = sent.request;
+            try {
+                await this.publicClient.call({ to, data, value, account: sent.from, blockNumber: receipt.blockNumber });
+            } catch (error) {
+                const mapped = toTransactionError(error, receipt.transactionHash);
+                if (mapped instanceof TransactionRevertedError) throw mapped;
+            }
+            throw new TransactionRevertedError(undefined, { hash: receipt.transactionHash });
+        }
+        return receipt;
+    }
+
+    private async lookup(hash: `0x${string}`): Promise<SentTransaction> {
+        const known = this.sent.get(hash);
+        if (known) return known;
+        const tx = await this.publicClient.getTransaction({ hash }).catch(() => undefined);
+        if (!tx) throw new TransactionError(`Transaction ${hash} not found.`, { hash, code: 'TX_NOT_FOUND' });
+        return {
+            hash,
+            nonce: tx.nonce,
+            from: tx.from,
+            request: {
+                to: tx.to!,
+                data: tx.input,
+                value: tx.value,
+                gas: tx.gas,
+                maxFeePerGas: tx.maxFeePerGas,
+                maxPriorityFeePerGas: tx.maxPriorityFeePerGas
+            }
+        };
+    }
+
+    private async bumpedFees(original: TxRequest, bumpPercent: number): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+        if (!Number.isInteger(bumpPercent) || bumpPercent < 10) {
+            throw new ValidationError('bumpPercent', 'Replacement fee bump must be an integer of at least 10 (%).');
+        }
+        const market = await this.fees();
+        const bump = (value: bigint | undefined) => ((value ?? 0n) * BigInt(100 + bumpPercent)) / 100n;
+        const maxPriorityFeePerGas = [bump(original.maxPriorityFeePerGas), market.maxPriorityFeePerGas]
+            .reduce((a, b) => (a > b ? a : b));
+        const maxFeePerGas = [bump(original.maxFeePerGas), market.maxFeePerGas, maxPriorityFeePerGas]
+            .reduce((a, b) => (a > b ? a : b));
+        return { maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    /** The replacement for pending `hash` at its nonce: the same call (or a self transfer) with bumped fees. */
+    async prepareReplacement(hash: `0x${string}`, bumpPercent: number, cancel: boolean): Promise<{ request: TxRequest; fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }; nonce: number }> {
+        const original = await this.lookup(hash);
+        const { address } = await this.signer.resolve();
+        if (original.from.toLowerCase() !== address.toLowerCase()) {
+            throw new TransactionError(`Transaction ${hash} was sent by ${original.from}, not the configured signer.`, { hash, code: 'TX_NOT_OWNED' });
+        }
+        const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch(() => undefined);
+        if (receipt) {
+            throw new TransactionError(`Transaction ${hash} is already mined in block ${receipt.blockNumber}.`, { hash, code: 'TX_ALREADY_MINED' });
+        }
+
+        const fees = await this.bumpedFees(original.request, bumpPercent);
+        this.checkCap(fees.maxFeePerGas, 'Replacement maxFeePerGas');
+        const request: TxRequest = cancel
+            ? { to: address, data: '0x', value: 0n, gas: 21_000n, ...fees }
+            : { ...original.request, ...fees };
+        return { request, fees, nonce: original.nonce };
+    }
+
+    private async replace(hash: `0x${string}`, bumpPercent: number, cancel: boolean): Promise<SentTransaction> {
+        const { request, nonce } = await this.prepareReplacement(hash, bumpPercent, cancel);
+        return this.send(request, nonce);
+    }
+
+    /** Re-send a pending transaction with the same nonce and fees bumped by `bumpPercent` (min 10). */
+    speedUp(hash: `0x${string}`, bumpPercent = 15): Promise<SentTransaction> {
+        return this.replace(hash, bumpPercent, false);
+    }
+
+    /** Replace a pending transaction with a 0-value self transfer at the same nonce. */
+    cancel(hash: `0x${string}`, bumpPercent = 15): Promise<SentTransaction> {
+        return this.replace(hash, bumpPercent, true);
+    }
+}
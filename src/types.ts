@@ -1,8 +1,196 @@
+import type { Account, EIP1193Provider, SignableMessage, TransactionSerializable, WalletClient } from 'viem';
+
 export interface MoltmoonConfig {
     baseUrl: string;
+    // Signer: set at most one of privateKey, account, walletClient, provider, remoteSigner.
     privateKey?: `0x${string}`;
+    account?: Account;                  // any viem Account (local, JSON-RPC, smart account...)
+    walletClient?: WalletClient;        // pre-built viem WalletClient
+    provider?: EIP1193Provider;         // e.g. window.ethereum
+    providerAddress?: `0x${string}`;    // skip eth_requestAccounts for provider
+    remoteSigner?: RemoteSigner;        // external signing daemon / HSM
     network?: 'base';
     rpcUrl?: string;
+    verifyIntents?: boolean; // decode + check API intents before signing (default: true)
+    trustedContracts?: TrustedContracts;
+    infiniteApprovals?: boolean; // approve maxUint256 instead of the exact shortfall (default: false)
+    maxPriceImpactBps?: number; // refuse trades whose quoted price impact exceeds this
+    pipelineApprovals?: boolean; // send approve + trade back to back instead of waiting for the approve (default: false)
+    pipelineGasLimit?: bigint; // gas for steps the RPC cannot simulate, in simulations and unsigned exports (default: 500000)
+    maxFeePerGas?: bigint; // wei; never offer more, and refuse to send while the base fee is above it
+    maxPriorityFeePerGas?: bigint; // wei
+    ethUsdPriceFeed?: `0x${string}`; // Chainlink ETH/USD aggregator for gas costs in USDC (default: Base feed)
+    normalizeImages?: boolean; // crop/resize/recompress launch images that break the upload rules instead of rejecting them (default: false)
+    ipfsGateway?: string; // gateway ipfs:// metadata and images are read through (default: https://ipfs.io/ipfs/)
+    mode?: 'live' | 'paper'; // paper: buy/sell fill against a virtual ledger at live quotes, nothing is signed (default: 'live')
+    paper?: PaperConfig;
+    timeoutMs?: number; // per API attempt (default: 30000)
+    retry?: RetryConfig;
+    onRequest?: (event: RequestEvent) => void;
+    onResponse?: (event: ResponseEvent) => void;
+    onLog?: (message: string) => void; // transaction progress ("Tx sent: ...") (default: stderr)
+}
+
+export interface PaperConfig {
+    usdc?: string;              // starting virtual USDC for a new ledger (default: 1000)
+    stateFile?: string;         // persist the ledger here; loaded when it exists (default: in memory)
+    account?: `0x${string}`;    // address the ledger reports as its owner (default: PAPER_ACCOUNT)
+}
+
+/** Named signers: V3 keystores (a directory and/or single files) and HD accounts from one mnemonic. */
+export interface WalletRegistryConfig {
+    keystoreDir?: string;                   // every *.json V3 keystore in it, named after the file
+    keystores?: Record<string, string>;     // name -> keystore file
+    mnemonic?: string;                      // BIP-39 phrase the `hd` wallets derive from
+    hd?: Record<string, string | number>;   // name -> derivation path, or account index under m/44'/60'/0'/0
+    password?: string | ((wallet: WalletInfo) => string | Promise<string>); // keystore password
+}
+
+export interface WalletInfo {
+    name: string;
+    address: `0x${string}`;
+    source: 'keystore' | 'hd';
+    file?: string;              // keystore wallets
+    path?: string;              // hd wallets
+}
+
+export interface RetryConfig {
+    retries?: number;        // extra attempts for idempotent GETs (default: 3)
+    minDelayMs?: number;     // first backoff step (default: 250)
+    maxDelayMs?: number;     // backoff and Retry-After ceiling (default: 10000)
+}
+
+/** Per-call options accepted by every public SDK method. */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+/** Options for buy/sell. */
+export interface TradeOptions extends RequestOptions {
+    minAmountOut?: string;      // explicit floor (output token units); derived from the quote + slippageBps when omitted
+    maxPriceImpactBps?: number; // overrides MoltmoonConfig.maxPriceImpactBps for this trade
+}
+
+/** Where a trade executes: the bonding curve, or the Aerodrome pool once the market graduated. */
+export type TradeVenue = 'curve' | 'aerodrome';
+
+export interface TradePreview {
+    side: 'buy' | 'sell';
+    market: string;
+    venue: TradeVenue;
+    amountIn: string;
+    expectedOut: string;        // API quote output (net of sell fee)
+    minAmountOut: string;       // floor the trade calldata must encode
+    feePaid: string;
+    priceImpactBps: number;     // quote vs spot, excluding the sell fee (pool fee on Aerodrome)
+    slippageBps: number;
+}
+
+/** Options for prepare* methods, which build transactions for another sender (e.g. a Safe) to sign. */
+export interface PrepareOptions extends RequestOptions {
+    from?: string;              // account the bundle is built for (allowances, simulation); defaults to the signer
+}
+
+export type ExportFormat = 'safe' | 'eip1559';
+
+/** Safe{Wallet} Transaction Builder batch file. */
+export interface SafeTransactionBatch {
+    version: '1.0';
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: {
+        to: string;
+        value: string;
+        data: string;
+        contractMethod: null;
+        contractInputsValues: null;
+    }[];
+}
+
+export interface UnsignedTransaction {
+    description?: string;
+    to: `0x${string}`;
+    value: string;
+    data: `0x${string}`;
+    nonce: number;
+    gas: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+    serialized: `0x${string}`;  // unsigned EIP-1559 (type 2) payload to hand to an offline signer
+}
+
+export interface UnsignedTransactionBundle {
+    format: 'eip1559';
+    chainId: number;
+    from: `0x${string}`;
+    transactions: UnsignedTransaction[];
+}
+
+export interface BroadcastResult {
+    hash: `0x${string}`;
+    from: `0x${string}`;
+    nonce: number;
+    blockNumber: string;
+    gasUsed: string;
+}
+
+/** A transaction a write method would send, with the checks applied to it before signing. */
+export interface PlannedTransaction {
+    intent: TransactionIntent;
+    expected: IntentExpectation;
+}
+
+export interface SimulatedStep {
+    description?: string;
+    to: string;
+    gas: string;                // gas limit that would be sent
+    simulated: boolean;         // false when the step could only be bounded (RPC without eth_simulateV1)
+}
+
+/** Outcome of simulating a write method without sending anything. */
+export interface SimulationResult {
+    steps: SimulatedStep[];
+    gas: string;                // total over all steps
+    maxFeePerGas: string;       // wei, after fee caps
+    maxPriorityFeePerGas: string;
+    costEth: string;            // gas x (base fee + priority fee), capped at maxFeePerGas
+    maxCostEth: string;         // gas x maxFeePerGas
+    costUsdc: string | null;    // null when the ETH/USD feed could not be read
+}
+
+export interface RequestEvent {
+    method: string;
+    url: string;
+    path: string;
+    attempt: number; // 1-based
+}
+
+export interface ResponseEvent extends RequestEvent {
+    status?: number; // undefined when the attempt failed before a response
+    durationMs: number;
+    error?: Error;
+    retryInMs?: number; // set when another attempt will follow
+}
+
+/** Signs transactions outside the SDK; the SDK never sees a key. */
+export interface RemoteSigner {
+    address: `0x${string}`;
+    signTransaction: (transaction: TransactionSerializable) => Promise<`0x${string}`>;
+    signMessage?: (message: SignableMessage) => Promise<`0x${string}`>;
+}
+
+export interface TrustedContracts {
+    usdc?: `0x${string}`;
+    factory?: `0x${string}`;
+    migration?: `0x${string}`;
 }
 
 export interface TokenMetadata {
@@ -21,7 +209,10 @@ export interface LaunchParams {
     symbol: string;
     description: string;
     seedAmount: string; // USDC
-    imageFile?: Buffer | string; // Buffer, data URL, or local file path
+    initialBuyUsdc?: string; // creator buy sent right after the create is mined
+    initialBuySlippageBps?: number; // default 500
+    imageFile?: Buffer | string; // Buffer, data URL, local file path, or https:// URL
+    normalizeImage?: boolean; // overrides MoltmoonConfig.normalizeImages for this launch
     socials?: {
         website?: string;
         twitter?: string;
@@ -30,6 +221,147 @@ export interface LaunchParams {
     };
 }
 
+/** The launch image exactly as it would be uploaded. */
+export interface LaunchImage {
+    mime: string;
+    width: number;
+    height: number;
+    bytes: number;
+    normalized: boolean;        // re-encoded by the SDK to meet the upload rules
+    original?: { mime: string; width: number; height: number; bytes: number }; // input, when normalized
+    dataUrl: string;
+}
+
+/** One launch of a batch; `error` when its config could not be parsed. */
+export interface LaunchBatchEntry {
+    id: string;                 // file name, or file#n for entries of a list file
+    source: string;
+    params?: LaunchParams;
+    error?: string;
+}
+
+export type LaunchBatchRecord =
+    | { status: 'pending'; startedAt: string }  // sent or about to be; outcome unknown
+    | ({ status: 'launched'; launchedAt: string } & LaunchResult)
+    | { status: 'failed'; failedAt: string; code: string; error: string };
+
+/** Progress of a batch launch, keyed by entry id. */
+export interface LaunchBatchState {
+    version: 1;
+    entries: Record<string, LaunchBatchRecord>;
+}
+
+// Strategy runner. Prices are USDC per whole token, taken from a quote for the order's own size on
+// the market's current venue (gross of the sell fee), so thresholds include price impact.
+
+interface StrategyOrderBase {
+    id: string;                 // key in the state file; defaults to <type>-<n>
+    slippageBps?: number;       // overrides Strategy.slippageBps
+    maxPriceImpactBps?: number; // overrides Strategy.maxPriceImpactBps
+}
+
+/** Buy once the price is at or below `maxPrice`. */
+export interface LimitBuyOrder extends StrategyOrderBase {
+    type: 'limit-buy';
+    market: string;
+    usdc: string;
+    maxPrice: string;
+}
+
+/** Sell `amount` tokens, or `percent` of the balance, once the price is at or above `minPrice`. */
+export interface LimitSellOrder extends StrategyOrderBase {
+    type: 'limit-sell';
+    market: string;
+    token?: string;             // default: the market's token
+    amount?: string;
+    percent?: number;
+    minPrice: string;
+}
+
+/** Sell `percent` (default 100) of the balance once the price moves the given % away from entry. */
+export interface ExitOrder extends StrategyOrderBase {
+    type: 'exit';
+    market: string;
+    token?: string;
+    percent?: number;
+    entryPrice?: string;        // default: the price when the order is first evaluated
+    takeProfitPercent?: number;
+    stopLossPercent?: number;
+}
+
+/** Buy `usdc` every `everyMinutes`, `times` times (default: until stopped), skipping slots above `maxPrice`. */
+export interface DcaOrder extends StrategyOrderBase {
+    type: 'dca';
+    market: string;
+    usdc: string;
+    everyMinutes: number;
+    times?: number;
+    maxPrice?: string;
+}
+
+/** Buy `usdc` of each token launched after the order started that matches the filter, up to `maxBuys` (default 1). */
+export interface NewLaunchOrder extends StrategyOrderBase {
+    type: 'new-launch';
+    usdc: string;
+    creator?: string;
+    search?: string;
+    minMarketCap?: number;
+    maxPrice?: string;
+    maxBuys?: number;
+}
+
+export type StrategyOrder = LimitBuyOrder | LimitSellOrder | ExitOrder | DcaOrder | NewLaunchOrder;
+
+export interface Strategy {
+    pollSeconds: number;        // default 30
+    slippageBps: number;        // default 500
+    maxPriceImpactBps?: number;
+    account?: string;           // whose balance percent sells use; default: the signer
+    orders: StrategyOrder[];
+}
+
+export interface StrategyFill {
+    at: string;
+    side: 'buy' | 'sell';
+    market: string;
+    amountIn: string;
+    expectedOut: string;
+    minAmountOut: string;
+    price: string;
+    hash: `0x${string}` | null; // null in dry runs
+}
+
+export interface StrategyOrderState {
+    status: 'active' | 'pending' | 'done' | 'failed'; // pending: a trade was sent and its outcome is unknown
+    fills: StrategyFill[];
+    entryPrice?: string;        // exit orders
+    nextRunAt?: string;         // dca orders
+    seen?: string[];            // new-launch orders: markets not to buy
+    lastError?: string;
+    updatedAt: string;
+}
+
+/** Progress of a strategy run, keyed by order id. */
+export interface StrategyState {
+    version: 1;
+    dryRun: boolean;
+    orders: Record<string, StrategyOrderState>;
+}
+
+export interface StrategyEvent {
+    order: string;
+    kind: 'trade' | 'skip' | 'done' | 'error';
+    message: string;
+    fill?: StrategyFill;
+}
+
+export interface StrategyRunnerOptions {
+    stateFile: string;
+    dryRun?: boolean;           // quote and log intended trades without signing
+    retryPending?: boolean;     // re-arm orders an interrupted run left pending (check on-chain first)
+    onEvent?: (event: StrategyEvent) => void;
+}
+
 export interface LaunchPreparation {
     metadataURI: string;
     imageUrl?: string;
@@ -37,6 +369,26 @@ export interface LaunchPreparation {
     createIntent: TransactionIntent;
 }
 
+export interface LaunchResult {
+    hash: `0x${string}`;
+    tokenAddress: `0x${string}`;
+    marketAddress: `0x${string}`;
+    rewardsPool: `0x${string}`;
+    creator: `0x${string}`;
+    blockNumber: string;
+    gasUsed: string;
+    initialBuy?: InitialBuyResult;
+    initialBuyError?: { code: string; message: string }; // the token launched but the creator buy did not go through
+}
+
+export interface InitialBuyResult {
+    hash: `0x${string}`;
+    usdcIn: string;
+    tokensOut: string;
+    tokensOutRaw: string;
+    blockNumber: string;
+}
+
 export interface Token {
     token: string;
     market: string;
@@ -51,6 +403,26 @@ export interface Token {
     seedAmount?: string;
     raised?: number;
     marketCap?: number;
+    graduated?: boolean;
+    progressPercent?: number;
+}
+
+export type TokenSort = 'newest' | 'marketCap' | 'raised' | 'progress';
+
+/** Filters for getTokens. Whatever the API does not apply itself is applied client-side. */
+export interface TokenQuery extends RequestOptions {
+    creator?: string;
+    search?: string;            // name or symbol substring, or an exact token/market address
+    graduated?: boolean;
+    minMarketCap?: number;      // USDC
+    sortBy?: TokenSort;         // descending; default 'newest'
+    limit?: number;             // page size (default: everything)
+    cursor?: string;            // nextCursor of the previous page
+}
+
+export interface TokenPage {
+    tokens: Token[];
+    nextCursor: string | null;  // null on the last page
 }
 
 export interface MarketDetails {
@@ -74,6 +446,7 @@ export interface QuoteResponse {
     amountIn: string;
     amountOut: string;
     feePaid: string;
+    venue?: TradeVenue;
 }
 
 export interface RewardsEarned {
@@ -83,6 +456,78 @@ export interface RewardsEarned {
     earnedRaw: string;   // raw wei string
 }
 
+export interface PortfolioPosition {
+    token: string;
+    market: string;
+    name: string;
+    symbol: string;
+    balance: string;             // token units (18 decimals)
+    balanceRaw: string;
+    valueUsdc: string | null;    // sell quote net of the sell fee; null when the market cannot quote
+    progressPercent: number;
+    graduated: boolean;
+    rewardsPool?: string;
+    unclaimedRewards: string;    // USDC formatted (6 decimals)
+}
+
+export interface Portfolio {
+    account: string;
+    usdcBalance: string;         // USDC formatted (6 decimals)
+    positions: PortfolioPosition[];
+    totalValueUsdc: string;      // sum of position values (excludes usdcBalance and rewards)
+}
+
+// Paper trading ledger. Amounts are formatted (USDC 6 / tokens 18 decimals); positions are
+// keyed by lowercased token address and carried at average cost.
+
+export interface PaperPosition {
+    token: string;
+    market: string;
+    balance: string;
+    costBasis: string;          // USDC paid for the tokens still held
+    realizedPnl: string;        // USDC, net of the sell fee
+}
+
+export interface PaperTrade {
+    hash: `0x${string}`;        // deterministic fake hash; never on-chain
+    at: string;
+    side: 'buy' | 'sell';
+    market: string;
+    token: string;
+    venue: TradeVenue;
+    usdc: string;               // spent on buys, received (after the fee) on sells
+    tokens: string;
+    feePaid: string;
+    realizedPnl?: string;       // sells only
+}
+
+export interface PaperLedgerState {
+    version: 1;
+    account: `0x${string}`;
+    startingUsdc: string;
+    usdc: string;
+    realizedPnl: string;
+    createdAt: string;
+    positions: Record<string, PaperPosition>;
+    trades: PaperTrade[];
+}
+
+export interface PaperPositionPnl extends PaperPosition {
+    valueUsdc: string | null;   // sell quote net of the fee; null when the market cannot quote
+    unrealizedPnl: string | null;
+}
+
+export interface PaperPnl {
+    account: `0x${string}`;
+    startingUsdc: string;
+    usdc: string;
+    equity: string;             // usdc + position values
+    realizedPnl: string;
+    unrealizedPnl: string;
+    totalPnl: string;           // equity - startingUsdc
+    positions: PaperPositionPnl[];
+}
+
 export interface MigrationStatus {
     migrationContract: string;
     active: boolean;
@@ -102,3 +547,171 @@ export interface TransactionIntent {
     chainId: number;
     description?: string;
 }
+
+export type IntentExpectation =
+    | { kind: 'approve'; token: `0x${string}`; spender: `0x${string}`; amount: bigint }
+    | { kind: 'transfer'; token: `0x${string}`; to: `0x${string}`; amount: bigint }
+    | { kind: 'buy'; market: `0x${string}`; usdcIn: bigint; minTokensOut?: bigint }
+    | { kind: 'sell'; market: `0x${string}`; tokensIn: bigint; minUsdcOut?: bigint }
+    | { kind: 'create'; factory: `0x${string}`; name: string; symbol: string; uri: string; seedAmount: bigint }
+    | { kind: 'claim'; pool: `0x${string}` }
+    | { kind: 'migrate'; migrationContract: `0x${string}`; amount: bigint }
+    | {
+        kind: 'swap';
+        router: `0x${string}`;
+        factory: `0x${string}`;
+        stable: boolean;
+        tokenIn: `0x${string}`;
+        tokenOut: `0x${string}`;
+        amountIn: bigint;
+        minAmountOut: bigint;
+        recipient: `0x${string}`;
+    };
+
+// Market events. Amounts are formatted (USDC 6 / tokens 18 decimals) with the raw value alongside.
+
+interface EventMeta {
+    blockNumber: string;
+    transactionHash: `0x${string}`;
+    logIndex: number;
+}
+
+export interface BuyEvent extends EventMeta {
+    type: 'buy';
+    market: `0x${string}`;
+    buyer: `0x${string}`;
+    usdcIn: string;
+    usdcInRaw: string;
+    tokensOut: string;
+    tokensOutRaw: string;
+}
+
+export interface SellEvent extends EventMeta {
+    type: 'sell';
+    market: `0x${string}`;
+    seller: `0x${string}`;
+    tokensIn: string;
+    tokensInRaw: string;
+    usdcOut: string;            // net of the sell fee
+    usdcOutRaw: string;
+    fee: string;
+    feeRaw: string;
+}
+
+export interface GraduatedEvent extends EventMeta {
+    type: 'graduated';
+    market: `0x${string}`;
+    aerodromePool: `0x${string}`;
+    baseAmount: string;         // USDC moved into the pool
+    tokenAmount: string;
+}
+
+export interface LaunchEvent extends EventMeta {
+    type: 'launch';
+    token: `0x${string}`;
+    market: `0x${string}`;
+    creator: `0x${string}`;
+    rewardsPool: `0x${string}`;
+    name: string;
+    symbol: string;
+    uri: string;
+    seedAmount: string;
+}
+
+export type MarketEvent = BuyEvent | SellEvent | GraduatedEvent;
+
+export interface WatchOptions {
+    fromBlock?: bigint;         // backfill from this block first (default: the current head)
+    pollingIntervalMs?: number; // head polling interval (default: 4000)
+    chunkSize?: bigint;         // max blocks per eth_getLogs (default: 2000, halved on range errors)
+    onError?: (error: Error) => void; // RPC errors; the watcher keeps retrying and backfills once the RPC recovers
+}
+
+export interface MarketEventHandlers extends WatchOptions {
+    onBuy?: (event: BuyEvent) => void;
+    onSell?: (event: SellEvent) => void;
+    onGraduated?: (event: GraduatedEvent) => void;
+}
+
+/** Stops a watcher. */
+export type Unwatch = () => void;
+
+export interface Trade {
+    side: 'buy' | 'sell';
+    market: `0x${string}`;
+    trader: `0x${string}`;
+    usdc: string;               // gross USDC leg (sells include the fee)
+    usdcRaw: string;
+    tokens: string;
+    tokensRaw: string;
+    price: string;              // USDC per whole token, gross of fees
+    timestamp: number;          // unix seconds of the block
+    blockNumber: string;
+    transactionHash: `0x${string}`;
+    logIndex: number;
+}
+
+export interface Candle {
+    time: number;               // bucket start, unix seconds
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+    volumeUsdc: string;
+    volumeTokens: string;
+    trades: number;
+    buys: number;
+    sells: number;
+}
+
+export interface TradeHistoryOptions extends RequestOptions {
+    fromBlock?: bigint;         // default: toBlock - 43200 (~24h of Base blocks)
+    toBlock?: bigint;           // default: latest
+    chunkSize?: bigint;         // blocks per eth_getLogs (default: 2000)
+}
+
+// Mock API server. Amounts are formatted USDC (6 decimals) unless noted.
+
+export interface MockServerOptions {
+    port?: number;              // default: 0 (any free port)
+    host?: string;              // default: 127.0.0.1
+    chainId?: number;           // chainId stamped on intents (default: 8453, Base / an anvil fork of it)
+    usdc?: `0x${string}`;       // default: Base USDC
+    factory?: `0x${string}`;
+    migration?: `0x${string}`;
+    virtualBase?: string;       // virtual USDC reserve of new markets (default: 5000)
+    sellFeeBps?: number;        // default: 500
+    tokens?: MockTokenSeed[];
+    rewards?: { pool: string; account: string; earned: string }[];
+    migrationStatus?: Partial<MigrationStatus>;
+}
+
+export interface MockTokenSeed {
+    name: string;
+    symbol: string;
+    creator?: string;
+    description?: string;
+    image?: string;
+    uri?: string;               // default: a data: URI built from name/symbol/description/image
+    seedAmount?: string;        // default: 20
+    raised?: string;            // USDC already bought on the curve
+    graduated?: boolean;        // buys the market to graduation (aerodromePool stays null)
+}
+
+/** A canned response for requests matching `path`, used `times` times (default: 1). */
+export interface MockFault {
+    method?: string;
+    path: string | RegExp;
+    status?: number;            // default: 500
+    body?: unknown;
+    headers?: Record<string, string>;
+    delayMs?: number;           // wait before answering (e.g. to trip a client timeout)
+    times?: number;
+}
+
+export interface MockRequestRecord {
+    method: string;
+    path: string;               // path and query string
+    body?: unknown;
+    status: number;
+}
@@ -0,0 +1,112 @@
+import { decodeFunctionData, type Abi } from 'viem';
+import { aerodromeRouterAbi, erc20Abi, factoryAbi, marketAbi, migrationAbi, rewardsPoolAbi } from './abis';
+import { IntentVerificationError } from './errors';
+import type { IntentExpectation, TransactionIntent } from './types';
+
+function mismatch(intent: TransactionIntent, field: string, expected: unknown, actual: unknown): never {
+    throw new IntentVerificationError(field, String(expected), String(actual), intent);
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+function expectTarget(intent: TransactionIntent, expected: `0x${string}`, field = 'to'): void {
+    if (!sameAddress(intent.to, expected)) mismatch(intent, field, expected, intent.to);
+}
+
+function decodeCall(intent: TransactionIntent, abi: Abi, functionName: string): readonly unknown[] {
+    let decoded: { functionName: string; args?: readonly unknown[] };
+    try {
+        decoded = decodeFunctionData({ abi, data: intent.data }) as typeof decoded;
+    } catch {
+        return mismatch(intent, 'selector', functionName, intent.data.slice(0, 10));
+    }
+    if (decoded.functionName !== functionName) {
+        mismatch(intent, 'selector', functionName, decoded.functionName);
+    }
+    return decoded.args ?? [];
+}
+
+function expectAmount(intent: TransactionIntent, field: string, expected: bigint, actual: unknown): void {
+    if (actual !== expected) mismatch(intent, field, expected, actual);
+}
+
+function expectFloor(intent: TransactionIntent, field: string, floor: bigint | undefined, actual: unknown): void {
+    if (floor === undefined) return;
+    if (typeof actual !== 'bigint' || actual < floor) mismatch(intent, field, `>= ${floor}`, actual);
+}
+
+/**
+ * Decode an intent's calldata and check it against what the caller requested.
+ * Throws IntentVerificationError naming the first mismatching field.
+ */
+export function verifyIntent(intent: TransactionIntent, expected: IntentExpectation, chainId: number): void {
+    if (intent.chainId !== chainId) mismatch(intent, 'chainId', chainId, intent.chainId);
+    if (BigInt(intent.value || '0') !== 0n) mismatch(intent, 'value', 0, intent.value);
+
+    switch (expected.kind) {
+        case 'approve': {
+            expectTarget(intent, expected.token, 'token');
+            const [spender, amount] = decodeCall(intent, erc20Abi, 'approve');
+            if (!sameAddress(String(spender), expected.spender)) mismatch(intent, 'spender', expected.spender, spender);
+            expectAmount(intent, 'amount', expected.amount, amount);
+            return;
+        }
+        case 'transfer': {
+            expectTarget(intent, expected.token, 'token');
+            const [to, amount] = decodeCall(intent, erc20Abi, 'transfer');
+            if (!sameAddress(String(to), expected.to)) mismatch(intent, 'recipient', expected.to, to);
+            expectAmount(intent, 'amount', expected.amount, amount);
+            return;
+        }
+        case 'buy': {
+            expectTarget(intent, expected.market, 'market');
+            const [usdcIn, minTokensOut] = decodeCall(intent, marketAbi, 'buy');
+            expectAmount(intent, 'usdcIn', expected.usdcIn, usdcIn);
+            expectFloor(intent, 'minTokensOut', expected.minTokensOut, minTokensOut);
+            return;
+        }
+        case 'sell': {
+            expectTarget(intent, expected.market, 'market');
+            const [tokensIn, minUsdcOut] = decodeCall(intent, marketAbi, 'sell');
+            expectAmount(intent, 'tokensIn', expected.tokensIn, tokensIn);
+            expectFloor(intent, 'minUsdcOut', expected.minUsdcOut, minUsdcOut);
+            return;
+        }
+        case 'create': {
+            expectTarget(intent, expected.factory, 'factory');
+            const [name, symbol, uri, seedAmount] = decodeCall(intent, factoryAbi, 'createToken');
+            if (name !== expected.name) mismatch(intent, 'name', expected.name, name);
+            if (symbol !== expected.symbol) mismatch(intent, 'symbol', expected.symbol, symbol);
+            if (uri !== expected.uri) mismatch(intent, 'uri', 'requested metadata URI', 'different URI');
+            expectAmount(intent, 'seedAmount', expected.seedAmount, seedAmount);
+            return;
+        }
+        case 'claim': {
+            expectTarget(intent, expected.pool, 'pool');
+            decodeCall(intent, rewardsPoolAbi, 'claim');
+            return;
+        }
+        case 'migrate': {
+            expectTarget(intent, expected.migrationContract, 'migrationContract');
+            const [amount] = decodeCall(intent, migrationAbi, 'migrate');
+            expectAmount(intent, 'amount', expected.amount, amount);
+            return;
+        }
+        case 'swap': {
+            expectTarget(intent, expected.router, 'router');
+            const [amountIn, minAmountOut, routes, recipient] = decodeCall(intent, aerodromeRouterAbi, 'swapExactTokensForTokens');
+            expectAmount(intent, 'amountIn', expected.amountIn, amountIn);
+            expectFloor(intent, 'minAmountOut', expected.minAmountOut, minAmountOut);
+            const hops = routes as readonly { from: string; to: string; stable: boolean; factory: string }[];
+            if (hops.length !== 1) mismatch(intent, 'routes', 1, hops.length);
+            if (!sameAddress(hops[0].from, expected.tokenIn)) mismatch(intent, 'tokenIn', expected.tokenIn, hops[0].from);
+            if (!sameAddress(hops[0].to, expected.tokenOut)) mismatch(intent, 'tokenOut', expected.tokenOut, hops[0].to);
+            if (!sameAddress(hops[0].factory, expected.factory)) mismatch(intent, 'factory', expected.factory, hops[0].factory);
+            if (hops[0].stable !== expected.stable) mismatch(intent, 'stable', expected.stable, hops[0].stable);
+            if (!sameAddress(String(recipient), expected.recipient)) mismatch(intent, 'recipient', expected.recipient, recipient);
+            return;
+        }
+    }
+}
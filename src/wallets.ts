@@ -0,0 +1,172 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { getAddress, isAddress, type Account } from 'viem';
+import { mnemonicToAccount, privateKeyToAccount } from 'viem/accounts';
+import { ValidationError } from './errors';
+import { readKeystore } from './keystore';
+import { readConfigFile } from './launch-config';
+import type { WalletInfo, WalletRegistryConfig } from './types';
+
+// Named wallets for running one command across a fleet. Addresses are known without
+// unlocking anything; keystores are decrypted (once) only when a wallet has to sign.
+
+const NAME = /^[A-Za-z0-9_.-]{1,64}$/;
+const HD_PATH = /^m(\/\d+'?)+$/;
+const HD_BASE_PATH = "m/44'/60'/0'/0";
+
+/**
+ * WalletRegistryConfig from a registry file (JSON/YAML with keystoreDir, keystores and hd;
+ * paths relative to the file), or from a directory of keystores. Secrets (mnemonic,
+ * password) are refused in the file; pass them in the config.
+ */
+export async function loadWalletRegistry(target: string): Promise<WalletRegistryConfig> {
+    let info;
+    try {
+        info = await stat(target);
+    } catch (error: any) {
+        throw new ValidationError('wallets', `Could not read wallet registry ${target}: ${error.message}`);
+    }
+    if (info.isDirectory()) return { keystoreDir: target };
+
+    const raw = await readConfigFile(target);
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ValidationError('wallets', `${target} must contain an object.`);
+    }
+    const file = raw as Record<string, unknown>;
+    for (const key of Object.keys(file)) {
+        if (key === 'mnemonic' || key === 'password') {
+            throw new ValidationError('wallets', `${target}: keep the ${key} out of the registry file (use MOLTMOON_${key.toUpperCase()}).`);
+        }
+        if (!['keystoreDir', 'keystores', 'hd'].includes(key)) {
+            throw new ValidationError('wallets', `${target}: unknown key "${key}" (expected keystoreDir, keystores, hd).`);
+        }
+    }
+    const dir = path.dirname(path.resolve(target));
+    const config: WalletRegistryConfig = {};
+    if (file.keystoreDir !== undefined) {
+        if (typeof file.keystoreDir !== 'string') throw new ValidationError('wallets', `${target}: keystoreDir must be a path.`);
+        config.keystoreDir = path.resolve(dir, file.keystoreDir);
+    }
+    if (file.keystores !== undefined) {
+        config.keystores = {};
+        for (const [name, value] of Object.entries(record(file.keystores, 'keystores', target))) {
+            if (typeof value !== 'string') throw new ValidationError('wallets', `${target}: keystores.${name} must be a path.`);
+            config.keystores[name] = path.resolve(dir, value);
+        }
+    }
+    if (file.hd !== undefined) config.hd = record(file.hd, 'hd', target) as Record<string, string | number>;
+    return config;
+}
+
+function record(value: unknown, key: string, target: string): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError('wallets', `${target}: ${key} must map wallet names to values.`);
+    }
+    return value as Record<string, unknown>;
+}
+
+async function keystoreAddress(file: string): Promise<`0x${string}`> {
+    let address: unknown;
+    try {
+        address = JSON.parse(await readFile(file, 'utf8')).address;
+    } catch (error: any) {
+        throw new ValidationError('wallets', `Could not read keystore ${file}: ${error.message}`);
+    }
+    const hex = typeof address === 'string' && !address.startsWith('0x') ? `0x${address}` : address;
+    if (typeof hex !== 'string' || !isAddress(hex, { strict: false })) {
+        throw new ValidationError('wallets', `Keystore ${file} has no address field; it cannot be listed without unlocking it.`);
+    }
+    return getAddress(hex);
+}
+
+function hdPath(name: string, value: string | number): string {
+    const derivation = typeof value === 'number' ? `${HD_BASE_PATH}/${value}` : value;
+    if ((typeof value === 'number' && (!Number.isInteger(value) || value < 0)) || !HD_PATH.test(derivation)) {
+        throw new ValidationError('wallets', `Wallet "${name}": invalid derivation path or index ${value}.`);
+    }
+    return derivation;
+}
+
+export class WalletRegistry {
+    private readonly accounts = new Map<string, Promise<Account>>();
+
+    private constructor(private readonly wallets: Map<string, WalletInfo>, private readonly config: WalletRegistryConfig) {}
+
+    static async load(config: WalletRegistryConfig): Promise<WalletRegistry> {
+        const wallets = new Map<string, WalletInfo>();
+        const add = (wallet: WalletInfo) => {
+            if (!NAME.test(wallet.name)) {
+                throw new ValidationError('wallets', `Invalid wallet name "${wallet.name}" (letters, digits, _ . - only).`);
+            }
+            if (wallets.has(wallet.name)) throw new ValidationError('wallets', `Duplicate wallet name "${wallet.name}".`);
+            const twin = [...wallets.values()].find((w) => w.address === wallet.address);
+            // Fan-out would otherwise claim or sweep the same account twice.
+            if (twin) throw new ValidationError('wallets', `Wallets "${twin.name}" and "${wallet.name}" are the same address ${wallet.address}.`);
+            wallets.set(wallet.name, wallet);
+        };
+
+        if (config.keystoreDir) {
+            let entries: string[];
+            try {
+                entries = (await readdir(config.keystoreDir)).filter((entry) => entry.toLowerCase().endsWith('.json')).sort();
+            } catch (error: any) {
+                throw new ValidationError('wallets', `Could not read keystore directory ${config.keystoreDir}: ${error.message}`);
+            }
+            for (const entry of entries) {
+                const file = path.join(config.keystoreDir, entry);
+                add({ name: entry.slice(0, -'.json'.length), address: await keystoreAddress(file), source: 'keystore', file });
+            }
+        }
+        for (const [name, file] of Object.entries(config.keystores ?? {})) {
+            add({ name, address: await keystoreAddress(file), source: 'keystore', file });
+        }
+        const hd = Object.entries(config.hd ?? {});
+        if (hd.length && !config.mnemonic) {
+            throw new ValidationError('wallets', `HD wallets (${hd.map(([name]) => name).join(', ')}) need a mnemonic.`);
+        }
+        for (const [name, value] of hd) {
+            const derivation = hdPath(name, value);
+            add({ name, address: mnemonicToAccount(config.mnemonic!, { path: derivation as `m/44'/60'/${string}` }).address, source: 'hd', path: derivation });
+        }
+        if (!wallets.size) throw new ValidationError('wallets', 'The wallet registry is empty.');
+        return new WalletRegistry(wallets, config);
+    }
+
+    /** Every wallet, keystore directory first (by file name), then keystores and hd in config order. */
+    list(): WalletInfo[] {
+        return [...this.wallets.values()];
+    }
+
+    /** The wallet named `nameOrAddress`, or the one with that address. */
+    get(nameOrAddress: string): WalletInfo {
+        const wallet = this.wallets.get(nameOrAddress)
+            ?? this.list().find((w) => w.address.toLowerCase() === nameOrAddress.toLowerCase());
+        if (!wallet) {
+            throw new ValidationError('wallet', `Unknown wallet "${nameOrAddress}". Known: ${[...this.wallets.keys()].join(', ')}.`);
+        }
+        return wallet;
+    }
+
+    /** A signing Account for MoltmoonConfig.account; keystores are decrypted on first use. */
+    account(nameOrAddress: string): Promise<Account> {
+        const wallet = this.get(nameOrAddress);
+        let account = this.accounts.get(wallet.name);
+        if (!account) {
+            account = this.unlock(wallet);
+            this.accounts.set(wallet.name, account);
+            account.catch(() => this.accounts.delete(wallet.name));
+        }
+        return account;
+    }
+
+    private async unlock(wallet: WalletInfo): Promise<Account> {
+        if (wallet.source === 'hd') return mnemonicToAccount(this.config.mnemonic!, { path: wallet.path as `m/44'/60'/${string}` });
+        const { password } = this.config;
+        if (password === undefined) throw new ValidationError('password', `Wallet "${wallet.name}" is a keystore; a password is required.`);
+        const account = privateKeyToAccount(await readKeystore(wallet.file!, typeof password === 'string' ? password : await password(wallet)));
+        if (account.address !== wallet.address) {
+            throw new ValidationError('wallets', `Keystore ${wallet.file} decrypts to ${account.address}, not the listed ${wallet.address}.`);
+        }
+        return account;
+    }
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { after, before, describe, it } from 'node:test';
+import { MockMoltmoonServer } from '../src/index';
+
+// `mltl ... --json` against the mock API. The CLI runs as a child process so the server stays
+// responsive; every stdout line must be JSON.
+
+const run = promisify(execFile);
+const CLI = path.join(__dirname, '..', 'src', 'cli.ts');
+
+describe('mltl --json', () => {
+    const server = new MockMoltmoonServer({ tokens: [{ name: 'Alpha', symbol: 'ALP', raised: '250' }] });
+    let baseUrl: string;
+    let dir: string;
+
+    before(async () => {
+        baseUrl = await server.start();
+        dir = await mkdtemp(path.join(tmpdir(), 'moltmoon-cli-'));
+    });
+    after(async () => {
+        await server.stop();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    async function mltl(...args: string[]): Promise<any[]> {
+        const { stdout } = await run(process.execPath, ['-r', 'ts-node/register/transpile-only', CLI, '--api-url', baseUrl, '--rpc-url', 'http://127.0.0.1:1', ...args], {
+            env: { PATH: process.env.PATH, TS_NODE_TRANSPILE_ONLY: '1', MOLTMOON_PAPER_STATE: path.join(dir, 'paper.json') },
+            timeout: 120_000
+        });
+        return stdout.trim().split('\n').map((line) => JSON.parse(line));
+    }
+
+    it('lists tokens and quotes', async () => {
+        const [tokens] = await mltl('tokens', '--json');
+        assert.equal(tokens.success, true);
+        assert.deepEqual(tokens.tokens.map((t: any) => t.symbol), ['ALP']);
+
+        const [quote] = await mltl('quote-buy', '--market', server.getTokens()[0].market, '--usdc', '10', '--json');
+        assert.equal(quote.success, true);
+        assert.equal(quote.quote.venue, 'curve');
+        assert.ok(Number(quote.quote.amountOut) > 0);
+    });
+
+    it('paper-trades and reports the ledger', async () => {
+        const { market } = server.getTokens()[0];
+        const [buy] = await mltl('--paper', 'buy', '--market', market, '--usdc', '25', '--yes', '--json');
+        assert.equal(buy.success, true);
+        assert.equal(buy.paper, true);
+        assert.match(buy.hash, /^0x[0-9a-f]{64}$/);
+
+        const [status] = await mltl('paper-status', '--json');
+        assert.equal(status.success, true);
+        assert.equal(status.usdc, '975');
+        assert.equal(status.positions.length, 1);
+
+        await assert.rejects(mltl('--paper', 'buy', '--market', market, '--usdc', '5', '--simulate', '--json'), (error: any) => {
+            assert.equal(JSON.parse(error.stderr.trim().split('\n').pop()).code, 'PAPER_MODE_UNSUPPORTED');
+            return true;
+        });
+    });
+
+    it('reports failures as JSON on stderr with a non-zero exit', async () => {
+        await assert.rejects(mltl('quote-buy', '--market', '0x0000000000000000000000000000000000000001', '--usdc', '1', '--json'), (error: any) => {
+            assert.equal(error.code, 1);
+            const body = JSON.parse(error.stderr.trim().split('\n').pop());
+            assert.equal(body.success, false);
+            assert.equal(body.code, 'API_ERROR');
+            assert.equal(body.status, 404);
+            return true;
+        });
+    });
+});
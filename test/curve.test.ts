@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { formatUnits } from 'viem';
+import {
+    MockMoltmoonServer,
+    MoltmoonSDK,
+    ValidationError,
+    curveStateFromMarket,
+    quoteBuy,
+    quoteBuyExactOut,
+    quoteSell,
+    usdcToGraduation
+} from '../src/index';
+
+// Curve math and SDK quotes against fixed BondingCurveMarketV2 snapshots (raw units).
+
+interface Snapshot {
+    name: string;
+    virtualBase: string;
+    baseReserveReal: string;
+    curveTokensRemaining: string;
+    sellFeeBps: number;
+    buys: { usdcIn: string; tokensOut: string }[];
+    sells: { tokensIn: string; usdcOut: string; feePaid: string }[];
+    exactOut: { tokensOut: string; usdcIn: string }[];
+}
+
+const { markets }: { markets: Snapshot[] } = JSON.parse(readFileSync(path.join(__dirname, 'fixtures/curve-quotes.json'), 'utf8'));
+const snapshot = (name: string) => markets.find((m) => m.name === name)!;
+
+describe('curve math', () => {
+    for (const market of markets) {
+        it(`reproduces the ${market.name} snapshot quotes`, () => {
+            const state = curveStateFromMarket(market);
+            for (const { usdcIn, tokensOut } of market.buys) {
+                assert.equal(quoteBuy(state, BigInt(usdcIn)).amountOut, BigInt(tokensOut), `buy ${usdcIn}`);
+            }
+            for (const { tokensIn, usdcOut, feePaid } of market.sells) {
+                const quote = quoteSell(state, BigInt(tokensIn));
+                assert.equal(quote.amountOut, BigInt(usdcOut), `sell ${tokensIn}`);
+                assert.equal(quote.feePaid, BigInt(feePaid), `sell fee ${tokensIn}`);
+            }
+            for (const { tokensOut, usdcIn } of market.exactOut) {
+                assert.equal(quoteBuyExactOut(state, BigInt(tokensOut)).amountIn, BigInt(usdcIn), `exact-out ${tokensOut}`);
+            }
+        });
+    }
+
+    it('rounds exact-output buys up to the smallest sufficient USDC amount', () => {
+        for (const market of markets) {
+            const state = curveStateFromMarket(market);
+            const perUnit = quoteBuy(state, 1n).amountOut;
+            for (const { tokensOut, usdcIn } of market.exactOut) {
+                const target = BigInt(tokensOut);
+                const received = quoteBuy(state, BigInt(usdcIn)).amountOut;
+                // USDC has 6 decimals, so the fill overshoots by less than one raw unit's worth of tokens.
+                assert.ok(received >= target, `${market.name}: ${usdcIn} buys ${received} < ${target}`);
+                assert.ok(received - target <= perUnit, `${market.name}: overshoot ${received - target} > ${perUnit}`);
+                assert.ok(quoteBuy(state, BigInt(usdcIn) - 1n).amountOut < target, `${market.name}: ${usdcIn} is not minimal`);
+            }
+        }
+    });
+
+    it('floors dust sells and sell fees to zero', () => {
+        const traded = snapshot('traded');
+        const state = curveStateFromMarket(traded);
+        assert.deepEqual([quoteSell(state, 1n).amountOut, quoteSell(state, 1n).feePaid], [0n, 0n]);
+        const dust = traded.sells.find((s) => s.feePaid === '0' && s.usdcOut !== '0')!;
+        assert.equal(quoteSell(state, BigInt(dust.tokensIn)).amountOut, BigInt(dust.usdcOut));
+    });
+
+    it('prices the graduation buy and rejects buying the whole reserve', () => {
+        const near = snapshot('near-graduation');
+        const state = curveStateFromMarket(near);
+        assert.equal(usdcToGraduation(state), BigInt(near.exactOut.at(-1)!.usdcIn));
+        assert.throws(() => quoteBuyExactOut(state, state.tokenReserve), ValidationError);
+    });
+});
+
+describe('MoltmoonSDK quotes against curve snapshots', () => {
+    const server = new MockMoltmoonServer({ tokens: [{ name: 'Traded', symbol: 'TRD' }] });
+    const traded = snapshot('traded');
+    let baseUrl: string;
+    let market: string;
+    const sdk = () => new MoltmoonSDK({ baseUrl, network: 'base', rpcUrl: 'http://127.0.0.1:1', retry: { minDelayMs: 1, maxDelayMs: 2 } });
+
+    before(async () => {
+        baseUrl = await server.start();
+        market = server.getTokens()[0].market;
+        const details = server.getMarketDetails(market);
+        const body = {
+            ...details,
+            ...traded,
+            totalBaseReserve: (BigInt(traded.virtualBase) + BigInt(traded.baseReserveReal)).toString()
+        };
+        server.inject({ method: 'GET', path: `/markets/${market}`, status: 200, body, times: 100 });
+    });
+    after(() => server.stop());
+
+    it('returns the API quotes for buys and sells on the curve', async () => {
+        const state = curveStateFromMarket(traded);
+        for (const { usdcIn, tokensOut } of traded.buys) {
+            const body = { amountIn: formatUnits(BigInt(usdcIn), 6), amountOut: formatUnits(BigInt(tokensOut), 18), feePaid: '0' };
+            server.inject({ method: 'GET', path: `/markets/${market}/quote/buy`, status: 200, body });
+            const quote = await sdk().getQuoteBuy(market, body.amountIn);
+            assert.deepEqual(quote, { ...body, venue: 'curve' });
+            assert.equal(quote.amountOut, formatUnits(quoteBuy(state, BigInt(usdcIn)).amountOut, 18));
+        }
+        for (const { tokensIn, usdcOut, feePaid } of traded.sells) {
+            const body = { amountIn: formatUnits(BigInt(tokensIn), 18), amountOut: formatUnits(BigInt(usdcOut), 6), feePaid: formatUnits(BigInt(feePaid), 6) };
+            server.inject({ method: 'GET', path: `/markets/${market}/quote/sell`, status: 200, body });
+            const quote = await sdk().getQuoteSell(market, body.amountIn);
+            assert.deepEqual(quote, { ...body, venue: 'curve' });
+            assert.equal(quote.amountOut, formatUnits(quoteSell(state, BigInt(tokensIn)).amountOut, 6));
+        }
+    });
+
+    it('prices exact-output buys from the market snapshot, rounding up', async () => {
+        for (const { tokensOut, usdcIn } of traded.exactOut) {
+            assert.equal(await sdk().getUsdcForExactTokens(market, formatUnits(BigInt(tokensOut), 18)), formatUnits(BigInt(usdcIn), 6));
+        }
+    });
+});
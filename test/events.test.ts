@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { createPublicClient, custom, getAddress, type PublicClient } from 'viem';
+import { base } from 'viem/chains';
+import { getLogsChunked, launchEventsAbi, marketEventsAbi, type DecodedLog } from '../src/events';
+import { buildCandles, toLaunchEvent, toMarketEvent, toTrade } from '../src/index';
+import type { BuyEvent, SellEvent } from '../src/types';
+
+// Decoding eth_getLogs fixtures into the SDK's event and trade types.
+
+const fixture = JSON.parse(readFileSync(path.join(__dirname, 'fixtures/market-logs.json'), 'utf8'));
+const MARKET = fixture.market[0].address;
+const FACTORY = fixture.factory[0].address;
+
+/** A client whose eth_getLogs serves the fixture; spans above `maxSpan` blocks fail like a capped RPC. */
+function client(maxSpan = Infinity, calls: [bigint, bigint][] = []): PublicClient {
+    const logs = [...fixture.factory, ...fixture.market];
+    return createPublicClient({
+        chain: base,
+        transport: custom({
+            async request({ method, params }: { method: string; params: any }) {
+                if (method !== 'eth_getLogs') throw new Error(`unexpected ${method}`);
+                const [{ address, fromBlock, toBlock }] = params;
+                const [from, to] = [BigInt(fromBlock), BigInt(toBlock)];
+                calls.push([from, to]);
+                if (Number(to - from + 1n) > maxSpan) {
+                    throw new Error('query exceeds max block range 100');
+                }
+                const addresses = [address].flat().map((a: string) => a.toLowerCase());
+                return logs.filter((log) => addresses.includes(log.address) && BigInt(log.blockNumber) >= from && BigInt(log.blockNumber) <= to);
+            }
+        })
+    }) as PublicClient;
+}
+
+async function readLogs(address: `0x${string}`, abi: typeof marketEventsAbi, fromBlock: bigint, toBlock: bigint, chain = client()) {
+    const logs: DecodedLog[] = [];
+    await getLogsChunked(chain, { address, abi, fromBlock, toBlock }, (chunk) => { logs.push(...chunk); });
+    return logs;
+}
+
+describe('event decoding', () => {
+    it('decodes TokenCreated into a launch event', async () => {
+        const [log] = await readLogs(FACTORY, launchEventsAbi, 21_000_000n, 21_000_000n);
+        assert.deepEqual(toLaunchEvent(log), {
+            type: 'launch',
+            token: getAddress('0x1f2e3d4c5b6a79880716253443526170f8e9dacb'),
+            market: getAddress(MARKET),
+            creator: getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'),
+            rewardsPool: getAddress('0x15d34aaf54267db7d7c367839aaf71a00a2c6a65'),
+            name: 'Alpha Agent',
+            symbol: 'ALPHA',
+            uri: 'ipfs://bafkreia7xalphaagentmetadata',
+            seedAmount: '20',
+            blockNumber: '21000000',
+            transactionHash: fixture.factory[0].transactionHash,
+            logIndex: 3
+        });
+    });
+
+    it('decodes Buy, Sell and Graduated market logs', async () => {
+        const events = (await readLogs(MARKET, marketEventsAbi, 21_000_000n, 21_000_500n)).map(toMarketEvent);
+        assert.deepEqual(events.map((event) => event?.type), ['buy', 'buy', 'sell', 'graduated']);
+
+        const [buy, dust, sell, graduated] = events as any[];
+        assert.equal(buy.buyer, getAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79c8'));
+        assert.deepEqual([buy.usdcIn, buy.usdcInRaw, buy.tokensOut], ['25', '25000000', '3984063.745019920318725099']);
+        assert.deepEqual([dust.usdcIn, dust.tokensOut], ['0.000001', '0.158730158678004535']);
+        assert.equal(sell.seller, getAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79c8'));
+        assert.deepEqual([sell.tokensIn, sell.usdcOut, sell.fee, sell.feeRaw], ['1000000', '6.176522', '0.32508', '325080']);
+        assert.deepEqual(
+            [graduated.aerodromePool, graduated.baseAmount, graduated.tokenAmount, graduated.blockNumber, graduated.logIndex],
+            [getAddress('0x9a8b7c6d5e4f30211203f4e5d6c7b8a9f0e1d2c3'), '47500', '200000000', '21000420', 7]
+        );
+    });
+
+    it('halves chunks the RPC rejects and still delivers every log in order', async () => {
+        const calls: [bigint, bigint][] = [];
+        const logs = await readLogs(MARKET, marketEventsAbi, 21_000_000n, 21_000_500n, client(100, calls));
+        assert.deepEqual(logs.map((log) => log.logIndex), [0, 1, 2, 7]);
+        assert.ok(calls.every(([from, to], i) => i === 0 || from === calls[i - 1][0] || from === calls[i - 1][1] + 1n));
+        assert.equal(calls.at(-1)![1], 21_000_500n);
+    });
+
+    it('turns trade logs into trades and candles', async () => {
+        const events = (await readLogs(MARKET, marketEventsAbi, 21_000_000n, 21_000_500n)).map(toMarketEvent);
+        const trades = events
+            .filter((event): event is BuyEvent | SellEvent => event?.type === 'buy' || event?.type === 'sell')
+            .map((event) => toTrade(event, fixture.blockTimestamps[event.blockNumber]));
+        // Sells are priced on the gross USDC (out + fee).
+        assert.deepEqual(trades.map((trade) => trade.usdc), ['25', '0.000001', '6.501602']);
+
+        const [candle] = buildCandles(trades, 60);
+        assert.deepEqual([candle.time, candle.trades, candle.buys, candle.sells], [1759999980, 3, 2, 1]);
+        assert.equal(candle.volumeUsdc, '31.501603');
+        assert.equal(candle.open, trades[0].price);
+        assert.equal(candle.close, trades[2].price);
+    });
+});
@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import jpeg from 'jpeg-js';
+import { formatUnits, parseUnits } from 'viem';
+import { HttpClient } from '../src/http';
+import { AbortedError, ApiError, MockMoltmoonServer, MoltmoonSDK, NetworkError, PaperTradeError, RequestTimeoutError, ValidationError, curveStateFromMarket, quoteBuy, quoteSell } from '../src/index';
+
+// SDK reads and paper trading against the in-process mock API; nothing here needs a chain.
+
+describe('MoltmoonSDK against MockMoltmoonServer', () => {
+    const server = new MockMoltmoonServer({
+        tokens: [
+            { name: 'Alpha', symbol: 'ALP', raised: '250' },
+            { name: 'Beta', symbol: 'BET' },
+            { name: 'Gamma', symbol: 'GAM', raised: '40' }
+        ]
+    });
+    let baseUrl: string;
+    let dir: string;
+    const sdk = (extra: object = {}) => new MoltmoonSDK({ baseUrl, network: 'base', rpcUrl: 'http://127.0.0.1:1', retry: { minDelayMs: 1, maxDelayMs: 2 }, ...extra });
+
+    before(async () => {
+        baseUrl = await server.start();
+        dir = await mkdtemp(path.join(tmpdir(), 'moltmoon-test-'));
+    });
+    after(async () => {
+        await server.stop();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('quotes buys and sells from the market curve', async () => {
+        const [alpha] = server.getTokens();
+        const market = await sdk().getMarket(alpha.market);
+        const state = curveStateFromMarket(market);
+
+        const buy = await sdk().getQuoteBuy(alpha.market, '10');
+        assert.equal(buy.venue, 'curve');
+        assert.equal(buy.amountOut, formatUnits(quoteBuy(state, parseUnits('10', 6)).amountOut, 18));
+
+        const sell = await sdk().getQuoteSell(alpha.market, '1000000');
+        const expected = quoteSell(state, parseUnits('1000000', 18));
+        assert.equal(sell.amountOut, formatUnits(expected.amountOut, 6));
+        assert.equal(sell.feePaid, formatUnits(expected.feePaid, 6));
+    });
+
+    it('pages and sorts tokens through server cursors', async () => {
+        const first = await sdk().getTokensPage({ limit: 2, sortBy: 'raised' });
+        assert.deepEqual(first.tokens.map((t) => t.symbol), ['ALP', 'GAM']);
+        assert.ok(first.nextCursor);
+        const second = await sdk().getTokensPage({ limit: 2, sortBy: 'raised', cursor: first.nextCursor! });
+        assert.deepEqual(second.tokens.map((t) => t.symbol), ['BET']);
+        assert.equal(second.nextCursor, null);
+
+        const all = [];
+        for await (const token of sdk().iterateTokens({ limit: 1 })) all.push(token.symbol);
+        assert.deepEqual(all, ['GAM', 'BET', 'ALP']);
+        assert.deepEqual((await sdk().getTokens({ search: 'bet' })).map((t) => t.symbol), ['BET']);
+    });
+
+    it('retries injected 5xx responses and surfaces the last one', async () => {
+        server.inject({ path: '/migration/status', status: 503, times: 2 });
+        assert.equal((await sdk().getMigrationStatus()).active, true);
+
+        server.inject({ path: /^\/markets\//, status: 500, times: 4 });
+        await assert.rejects(sdk().getMarket(server.getTokens()[1].market), (error) => error instanceof ApiError && error.status === 500);
+    });
+
+    it('fills paper buys and sells at the quote and tracks PnL', async () => {
+        const [alpha] = server.getTokens();
+        const paper = sdk({ mode: 'paper', paper: { usdc: '100', stateFile: path.join(dir, 'paper.json') } });
+
+        const quote = await paper.getQuoteBuy(alpha.market, '40');
+        await paper.buy(alpha.market, '40');
+        const account = await paper.getAddress();
+        assert.equal(await paper.getBalance(alpha.token, account), parseUnits(quote.amountOut, 18));
+        assert.equal(formatUnits(await paper.getBalance(server.usdc, account), 6), '60');
+
+        const half = formatUnits(parseUnits(quote.amountOut, 18) / 2n, 18);
+        const sellQuote = await paper.getQuoteSell(alpha.market, half);
+        await paper.sell(alpha.market, half, alpha.token);
+        const pnl = await paper.getPaperPnl();
+        assert.equal(pnl.usdc, formatUnits(parseUnits('60', 6) + parseUnits(sellQuote.amountOut, 6), 6));
+        assert.equal(pnl.positions.length, 1);
+        assert.ok(Number(pnl.realizedPnl) < 0, 'the 5% sell fee makes an immediate round trip lose money');
+
+        await assert.rejects(paper.buy(alpha.market, '1000'), (error) => error instanceof PaperTradeError && error.code === 'PAPER_INSUFFICIENT_BALANCE');
+        const reloaded = sdk({ mode: 'paper', paper: { stateFile: path.join(dir, 'paper.json') } });
+        assert.equal((await reloaded.exportPaperLedger()).trades.length, 2);
+    });
+
+    it('requires a pinned factory before preparing a launch', async () => {
+        const params = { name: 'Delta', symbol: 'DLT', description: 'A test launch', seedAmount: '20' };
+        const served = server.requests.length;
+        await assert.rejects(sdk().prepareLaunchToken(params), (error) => error instanceof ValidationError && error.field === 'factory');
+        assert.equal(server.requests.length, served, 'nothing is uploaded');
+
+        const prep = await sdk({ trustedContracts: { factory: server.factory } }).prepareLaunchToken(params);
+        assert.equal(prep.createIntent.to.toLowerCase(), server.factory.toLowerCase());
+    });
+
+    it('requires a pinned migration contract before migrating', async () => {
+        const served = server.requests.length;
+        await assert.rejects(sdk().prepareMigrate('100'), (error) => error instanceof ValidationError && error.field === 'migration');
+        assert.equal(server.requests.length, served);
+    });
+
+    it('stops downloading a remote image past the byte cap', async () => {
+        const http = new HttpClient({ baseUrl, retry: { retries: 0 } });
+        const tooLarge = (error: unknown) => error instanceof NetworkError && error.code === 'RESPONSE_TOO_LARGE';
+        const bytes = Buffer.alloc(2 * 1024 * 1024, 1);
+
+        // Refused from Content-Length before the body is read.
+        const upload = await fetch(`${baseUrl}/upload/image`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ image: `data:image/png;base64,${bytes.toString('base64')}` })
+        });
+        const { url } = await upload.json() as { url: string };
+        await assert.rejects(http.fetchBytes(url, 1024 * 1024), tooLarge);
+        assert.deepEqual(await http.fetchBytes(url, bytes.length), bytes);
+
+        // Refused while streaming a chunked body that declares no length.
+        server.inject({ method: 'GET', path: '/stream', status: 200, body: 'x'.repeat(bytes.length), headers: { 'Transfer-Encoding': 'chunked' } });
+        await assert.rejects(http.fetchBytes(`${baseUrl}/stream`, 1024 * 1024), tooLarge);
+    });
+
+    it('times out and aborts responses that stall mid-body', async () => {
+        // Headers and half a JSON body, then nothing.
+        const stalled = createServer((_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.write('{"tokens": [');
+        });
+        await new Promise<void>((resolve) => stalled.listen(0, '127.0.0.1', resolve));
+        const { port } = stalled.address() as AddressInfo;
+        const http = new HttpClient({ baseUrl: `http://127.0.0.1:${port}`, timeoutMs: 200, retry: { retries: 0 } });
+        try {
+            await assert.rejects(http.request('/tokens'), RequestTimeoutError);
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 50);
+            await assert.rejects(http.request('/tokens', {}, { signal: controller.signal, timeoutMs: 60_000 }), AbortedError);
+        } finally {
+            stalled.closeAllConnections();
+            await new Promise((resolve) => stalled.close(resolve));
+        }
+    });
+
+    it('normalizes a WebP launch image into a square JPEG', async () => {
+        // 300x200 lossy WebP, red on the left half and blue on the right.
+        const webp = await readFile(path.join(__dirname, 'fixtures/launch-300x200.webp'));
+        const image = await sdk().checkLaunchImage(webp, { normalize: true });
+        assert.deepEqual([image.mime, image.width, image.height, image.normalized], ['image/jpeg', 512, 512, true]);
+        assert.deepEqual(image.original, { mime: 'image/webp', width: 300, height: 200, bytes: webp.length });
+
+        const { data } = jpeg.decode(Buffer.from(image.dataUrl.split(',')[1], 'base64'), { useTArray: true });
+        const [left, right] = [100, 412].map((x) => data.subarray((256 * 512 + x) * 4, (256 * 512 + x) * 4 + 3));
+        assert.ok(left[0] > 150 && left[2] < 100, `left ${left}`);
+        assert.ok(right[2] > 150 && right[0] < 100, `right ${right}`);
+    });
+});
+
+describe('client-side token paging', () => {
+    // Every fifth token is graduated; the plain list the API falls back to omits market state.
+    const seeds = Array.from({ length: 20 }, (_, i) => ({ name: `Token ${i}`, symbol: `T${i}`, graduated: i % 5 === 0 }));
+    const server = new MockMoltmoonServer({ tokens: seeds });
+    let baseUrl: string;
+    const sdk = () => new MoltmoonSDK({ baseUrl, network: 'base', rpcUrl: 'http://127.0.0.1:1', retry: { minDelayMs: 1, maxDelayMs: 2 } });
+    const marketReads = () => server.requests.filter((r) => /^\/markets\/0x[0-9a-fA-F]+$/.test(r.path)).length;
+
+    before(async () => {
+        baseUrl = await server.start();
+        const tokens = server.getTokens().map(({ graduated, progressPercent, ...token }) => token);
+        server.inject({ method: 'GET', path: '/tokens', status: 200, body: { tokens }, times: 100 });
+    });
+    after(() => server.stop());
+
+    it('reads market state only for the tokens a graduated page scans', async () => {
+        const first = await sdk().getTokensPage({ graduated: true, limit: 1 });
+        assert.deepEqual(first.tokens.map((t) => t.symbol), ['T15']);
+        assert.equal(first.nextCursor, 'offset:5');
+        assert.ok(marketReads() <= 8, `${marketReads()} market reads for one page`);
+
+        const second = await sdk().getTokensPage({ graduated: true, limit: 1, cursor: first.nextCursor! });
+        assert.deepEqual(second.tokens.map((t) => t.symbol), ['T10']);
+
+        const all = [];
+        for await (const token of sdk().iterateTokens({ graduated: false, limit: 4 })) all.push(token.symbol);
+        assert.equal(all.length, 16);
+        assert.ok(!all.some((symbol) => ['T0', 'T5', 'T10', 'T15'].includes(symbol)));
+    });
+});
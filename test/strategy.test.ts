@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { MockMoltmoonServer, MoltmoonSDK, StrategyRunner, ValidationError, parseStrategy } from '../src/index';
+import type { StrategyEvent } from '../src/types';
+
+// Dry-run strategies against the mock API with a read-only SDK (no signer).
+
+describe('StrategyRunner dry runs', () => {
+    const server = new MockMoltmoonServer({ tokens: [{ name: 'Alpha', symbol: 'ALP', raised: '250' }] });
+    let baseUrl: string;
+    let dir: string;
+    const sdk = () => new MoltmoonSDK({ baseUrl, network: 'base', rpcUrl: 'http://127.0.0.1:1', retry: { retries: 1, minDelayMs: 1, maxDelayMs: 2 } });
+
+    before(async () => {
+        baseUrl = await server.start();
+        dir = await mkdtemp(path.join(tmpdir(), 'moltmoon-strategy-'));
+    });
+    after(async () => {
+        await server.stop();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('rejects percent sells without an account or signer at start', async () => {
+        const [alpha] = server.getTokens();
+        const orders = [{ id: 'tp', type: 'exit', market: alpha.market, takeProfitPercent: 50 }];
+        const runner = new StrategyRunner(sdk(), parseStrategy({ orders }), { stateFile: path.join(dir, 'exit.json'), dryRun: true });
+        await assert.rejects(runner.getState(), (error) => error instanceof ValidationError && error.field === 'account' && /tp/.test(error.message));
+
+        const account = '0x00000000000000000000000000000000000000a1';
+        const pinned = new StrategyRunner(sdk(), parseStrategy({ account, orders }), { stateFile: path.join(dir, 'exit.json'), dryRun: true });
+        assert.deepEqual((await pinned.getState()).orders, {});
+    });
+
+    it('sizes live percent sells from the signer only', async () => {
+        const [alpha] = server.getTokens();
+        const orders = [{ id: 'tp', type: 'exit', market: alpha.market, takeProfitPercent: 50 }];
+        const signed = new MoltmoonSDK({ baseUrl, network: 'base', rpcUrl: 'http://127.0.0.1:1', privateKey: `0x${'11'.repeat(32)}` });
+        const other = parseStrategy({ account: '0x00000000000000000000000000000000000000a1', orders });
+        const runner = new StrategyRunner(signed, other, { stateFile: path.join(dir, 'live.json') });
+        await assert.rejects(runner.getState(), (error) => error instanceof ValidationError && error.field === 'account' && /not the signer/.test(error.message));
+
+        const own = parseStrategy({ account: (await signed.getAddress()).toLowerCase(), orders });
+        assert.deepEqual((await new StrategyRunner(signed, own, { stateFile: path.join(dir, 'live.json') }).getState()).orders, {});
+    });
+
+    it('retries a new launch whose quote failed instead of marking it seen', async () => {
+        const events: StrategyEvent[] = [];
+        const strategy = parseStrategy({ orders: [{ id: 'sniper', type: 'new-launch', usdc: 5 }] });
+        const runner = new StrategyRunner(sdk(), strategy, { stateFile: path.join(dir, 'sniper.json'), dryRun: true, onEvent: (e) => events.push(e) });
+
+        await runner.tick();
+        const fresh = server.addToken({ name: 'Fresh', symbol: 'FRS' });
+        server.inject({ path: `/markets/${fresh.market}/quote/buy`, status: 503, times: 2 });
+        await runner.tick();
+        const record = (await runner.getState()).orders.sniper;
+        assert.equal(record.fills.length, 0);
+        assert.ok(!record.seen!.includes(fresh.market.toLowerCase()));
+        assert.equal(events.at(-1)!.kind, 'skip');
+
+        await runner.tick();
+        assert.equal(record.fills.length, 1);
+        assert.equal(record.fills[0].market, fresh.market);
+        assert.equal(record.status, 'done');
+    });
+
+    it('drops a new launch the API rejects', async () => {
+        const strategy = parseStrategy({ orders: [{ id: 'sniper', type: 'new-launch', usdc: 5 }] });
+        const runner = new StrategyRunner(sdk(), strategy, { stateFile: path.join(dir, 'rejected.json'), dryRun: true });
+
+        await runner.tick();
+        const bad = server.addToken({ name: 'Broken', symbol: 'BRK' });
+        server.inject({ path: `/markets/${bad.market}/quote/buy`, status: 400, body: { error: 'market paused' } });
+        await runner.tick();
+        const record = (await runner.getState()).orders.sniper;
+        assert.ok(record.seen!.includes(bad.market.toLowerCase()));
+        assert.equal(record.fills.length, 0);
+        assert.equal(record.status, 'active');
+    });
+});
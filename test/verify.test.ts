@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeSwap, type PoolState } from '../src/aerodrome';
+import { AERODROME_FACTORY, AERODROME_ROUTER, BASE_USDC, IntentVerificationError, verifyIntent } from '../src/index';
+import type { IntentExpectation, TransactionIntent } from '../src/types';
+
+// Intent checks on locally encoded Aerodrome swaps.
+
+describe('verifyIntent swap routes', () => {
+    const token = '0x00000000000000000000000000000000000000aa';
+    const recipient = '0x00000000000000000000000000000000000000bb';
+    const pool: PoolState = {
+        pool: '0x00000000000000000000000000000000000000cc',
+        token0: BASE_USDC,
+        token1: token,
+        reserve0: 10n ** 12n,
+        reserve1: 10n ** 27n,
+        stable: false,
+        feeBps: 30n,
+        factory: AERODROME_FACTORY
+    };
+    const expected: IntentExpectation = {
+        kind: 'swap',
+        router: AERODROME_ROUTER,
+        factory: AERODROME_FACTORY,
+        stable: false,
+        tokenIn: BASE_USDC,
+        tokenOut: token,
+        amountIn: 10n ** 6n,
+        minAmountOut: 1n,
+        recipient
+    };
+    const swap = (state: PoolState): TransactionIntent => ({
+        to: AERODROME_ROUTER,
+        data: encodeSwap({ state, tokenIn: BASE_USDC, tokenOut: token, amountIn: 10n ** 6n, minAmountOut: 1n, recipient, deadline: 1n }),
+        value: '0',
+        chainId: 8453,
+        description: 'swap'
+    });
+    const rejects = (intent: TransactionIntent, field: string) =>
+        assert.throws(() => verifyIntent(intent, expected, 8453), (error) => error instanceof IntentVerificationError && error.field === field);
+
+    it('accepts a route through the pinned factory', () => {
+        verifyIntent(swap(pool), expected, 8453);
+    });
+
+    it('rejects a route with another factory or stable flag', () => {
+        rejects(swap({ ...pool, factory: '0x00000000000000000000000000000000000000dd' }), 'factory');
+        rejects(swap({ ...pool, stable: true }), 'stable');
+    });
+});